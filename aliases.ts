@@ -0,0 +1,214 @@
+import type { Bot } from 'grammy';
+import { getSheetBinding } from './bindings';
+import { isChatAdmin } from './bot-helpers';
+import type { MyContext } from './session';
+import { dataFilePath, readJsonFile, writeJsonFile } from './storage';
+
+const ALIASES_PATH = process.env.ALIASES_PATH || dataFilePath('aliases.json');
+
+// Max edit distance for "did you mean" suggestions
+const MAX_SUGGESTION_DISTANCE = 2;
+
+// Spreadsheet ID -> Telegram username (lowercase, without @) -> sheet nickname (e.g. "@almoga")
+const aliases = new Map<string, Record<string, string>>(
+  Object.entries(
+    readJsonFile<Record<string, Record<string, string>>>(ALIASES_PATH, {}),
+  ),
+);
+
+/**
+ * Normalize nickname for comparison: no @, no surrounding spaces, lowercase
+ */
+export function normalizeNickname(nickname: string): string {
+  return nickname.trim().replace(/^@/, '').toLowerCase();
+}
+
+/**
+ * Save aliases to disk
+ */
+function saveAliases(): void {
+  try {
+    writeJsonFile(ALIASES_PATH, Object.fromEntries(aliases));
+  } catch (error) {
+    console.error('[ALIASES] Failed to save aliases:', error);
+  }
+}
+
+/**
+ * Get sheet nickname aliased to a Telegram username in a spreadsheet
+ */
+export function getNicknameAlias(
+  spreadsheetId: string,
+  username: string,
+): string | undefined {
+  return aliases.get(spreadsheetId)?.[normalizeNickname(username)];
+}
+
+/**
+ * Find Telegram usernames (with @) aliased to a sheet nickname in a spreadsheet
+ */
+export function findAliasedUsernames(
+  spreadsheetId: string,
+  nickname: string,
+): string[] {
+  const normalized = normalizeNickname(nickname);
+  return Object.entries(aliases.get(spreadsheetId) ?? {})
+    .filter(([, aliased]) => normalizeNickname(aliased) === normalized)
+    .map(([username]) => `@${username}`);
+}
+
+/**
+ * Match a Telegram username to a sheet nickname in a spreadsheet
+ * (saved only if changed)
+ */
+export function setNicknameAlias(
+  spreadsheetId: string,
+  username: string,
+  nickname: string,
+): void {
+  const key = normalizeNickname(username);
+  const spreadsheetAliases = aliases.get(spreadsheetId) ?? {};
+  if (spreadsheetAliases[key] === nickname) return;
+
+  aliases.set(spreadsheetId, { ...spreadsheetAliases, [key]: nickname });
+  saveAliases();
+}
+
+/**
+ * Delete a Telegram username's alias in a spreadsheet
+ * @returns false if the username had no alias
+ */
+function removeNicknameAlias(spreadsheetId: string, username: string): boolean {
+  const spreadsheetAliases = aliases.get(spreadsheetId);
+  const key = normalizeNickname(username);
+  if (!spreadsheetAliases || spreadsheetAliases[key] === undefined) {
+    return false;
+  }
+
+  const { [key]: _removed, ...rest } = spreadsheetAliases;
+  if (Object.keys(rest).length === 0) {
+    aliases.delete(spreadsheetId);
+  } else {
+    aliases.set(spreadsheetId, rest);
+  }
+  saveAliases();
+  return true;
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Find the sheet nickname closest to an unmatched username
+ * Returns undefined when nothing is within MAX_SUGGESTION_DISTANCE edits
+ * (or less than half the username's length for short names)
+ */
+export function suggestNickname(
+  username: string,
+  candidates: string[],
+): string | undefined {
+  const normalized = normalizeNickname(username);
+  const maxDistance = Math.min(
+    MAX_SUGGESTION_DISTANCE,
+    Math.floor((normalized.length - 1) / 2),
+  );
+
+  let best: { nickname: string; distance: number } | undefined;
+  for (const candidate of candidates) {
+    const distance = editDistance(normalized, normalizeNickname(candidate));
+    if (distance <= maxDistance && (!best || distance < best.distance)) {
+      best = { nickname: candidate, distance };
+    }
+  }
+  return best?.nickname;
+}
+
+/**
+ * Register /alias command handler
+ */
+export function registerAliasCommand(bot: Bot<MyContext>): void {
+  /**
+   * Alias command handler - match a renamed Telegram username to its sheet nickname
+   * Aliases belong to the chat's spreadsheet; only chat admins can change them
+   * Usage: /alias @old @new, /alias remove @new, /alias (list)
+   */
+  bot.command('alias', async (ctx) => {
+    const args = ctx.match.trim().split(/\s+/).filter(Boolean);
+
+    let spreadsheetId: string;
+    try {
+      ({ spreadsheetId } = getSheetBinding(ctx));
+    } catch (error) {
+      await ctx.reply(
+        `❌ ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+      return;
+    }
+    const spreadsheetAliases = aliases.get(spreadsheetId) ?? {};
+
+    if (args.length === 0) {
+      if (Object.keys(spreadsheetAliases).length === 0) {
+        await ctx.reply(
+          'ℹ️ No aliases yet.\n\nUsage: /alias @old @new (sheet nickname, then Telegram username)',
+        );
+        return;
+      }
+      const lines = Object.entries(spreadsheetAliases).map(
+        ([username, nickname]) => `• @${username} → ${nickname}`,
+      );
+      await ctx.reply(`🔗 Aliases (Telegram → sheet):\n\n${lines.join('\n')}`);
+      return;
+    }
+
+    if (!(await isChatAdmin(ctx))) {
+      await ctx.reply('❌ Only chat admins can change aliases.');
+      return;
+    }
+
+    if (args.length === 2 && args[0].toLowerCase() === 'remove') {
+      const key = normalizeNickname(args[1]);
+      if (!removeNicknameAlias(spreadsheetId, key)) {
+        await ctx.reply(`❌ No alias for @${key}.`);
+        return;
+      }
+      console.log(
+        `[ALIAS REMOVED] @${key}, Spreadsheet: ${spreadsheetId}, Chat ID: ${ctx.chat.id}, User: @${ctx.from?.username || 'unknown'}`,
+      );
+      await ctx.reply(`✅ Alias for @${key} removed.`);
+      return;
+    }
+
+    if (args.length !== 2) {
+      await ctx.reply(
+        '❌ Usage: /alias @old @new\n\n' +
+          '@old is the nickname in the sheet, @new the Telegram username the player uses now.\n' +
+          'Remove with /alias remove @new, list with /alias',
+      );
+      return;
+    }
+
+    const nickname = `@${args[0].replace(/^@+/, '')}`;
+    const username = `@${normalizeNickname(args[1])}`;
+    setNicknameAlias(spreadsheetId, username, nickname);
+    console.log(
+      `[ALIAS] ${username} -> ${nickname}, Spreadsheet: ${spreadsheetId}, Chat ID: ${ctx.chat.id}, User: @${ctx.from?.username || 'unknown'}`,
+    );
+    await ctx.reply(`✅ ${username} is now matched as ${nickname}.`);
+  });
+}
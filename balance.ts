@@ -0,0 +1,375 @@
+import { type Bot, GrammyError } from 'grammy';
+import { findAliasedUsernames, normalizeNickname } from './aliases';
+import { getSheetBinding } from './bindings';
+import { isChatAdmin } from './bot-helpers';
+import { parseUsernames } from './handlers/sheet-handlers';
+import { getSheetLayout } from './layout';
+import { USER_ID_TOKEN_PREFIX } from './poll';
+import { initSeasonSheetsClient } from './seasons';
+import type { MyContext } from './session';
+import type { SheetsClient } from './sheets';
+import { dataFilePath, readJsonFile, writeJsonFile } from './storage';
+import { findLinkedUserId } from './user-links';
+
+// Players with balance below this value are listed by /debts
+const DEBT_THRESHOLD = Number(process.env.DEBT_THRESHOLD || 0);
+
+// Minimum hours between two reminders to the same player
+const REMINDER_COOLDOWN_HOURS = Number(
+  process.env.REMINDER_COOLDOWN_HOURS || 72,
+);
+
+const REMINDERS_PATH =
+  process.env.REMINDERS_PATH || dataFilePath('reminders.json');
+
+// "<spreadsheet id>|<lowercase nickname without @>" -> timestamp of the last reminder
+const lastReminders = new Map<string, number>(
+  Object.entries(readJsonFile<Record<string, number>>(REMINDERS_PATH, {})),
+);
+
+/**
+ * Save reminder timestamps to disk
+ */
+function saveReminders(): void {
+  try {
+    writeJsonFile(REMINDERS_PATH, Object.fromEntries(lastReminders));
+  } catch (error) {
+    console.error('[REMINDERS] Failed to save reminder timestamps:', error);
+  }
+}
+
+/**
+ * Player whose balance is below the threshold
+ */
+interface Debtor {
+  nickname: string;
+  balance: number;
+}
+
+/**
+ * Result of a reminder attempt for one debtor
+ */
+type ReminderStatus = 'sent' | 'recent' | 'not_started' | 'failed';
+
+/**
+ * Get sheet lookup token for the command sender
+ * Users without username are looked up by id (see /linkid)
+ */
+function getSenderToken(ctx: MyContext): string | null {
+  if (!ctx.from) return null;
+  return ctx.from.username
+    ? `@${ctx.from.username}`
+    : `${USER_ID_TOKEN_PREFIX}${ctx.from.id}`;
+}
+
+/**
+ * Register /balance command handler
+ */
+export function registerBalanceCommand(bot: Bot<MyContext>): void {
+  /**
+   * Balance command handler - show a player's current balance
+   * Without argument shows the sender's own balance
+   */
+  bot.command('balance', async (ctx) => {
+    const [argument] = parseUsernames(ctx.match);
+    const token = argument ?? getSenderToken(ctx);
+    if (!token) {
+      await ctx.reply('❌ Usage: /balance [@username]');
+      return;
+    }
+    const displayName = argument ?? 'You';
+
+    const { nicknameColumn } = getSheetLayout();
+    try {
+      const sheetsClient = await initSeasonSheetsClient(ctx);
+      const balanceColumns = await sheetsClient.findBalanceColumns();
+      if (balanceColumns.length === 0) {
+        await ctx.reply(
+          '❌ No balance columns ("Баланс ...") found in the sheet.',
+        );
+        return;
+      }
+
+      const nicknameRows = await sheetsClient.findNicknameRows([token]);
+      if (!nicknameRows.has(token)) {
+        await ctx.reply(
+          argument
+            ? `❌ ${argument} not found in the sheet (column ${nicknameColumn}).`
+            : `❌ You are not found in the sheet (column ${nicknameColumn}). Ask an organizer to add you or use /balance @username.`,
+        );
+        return;
+      }
+
+      // Rightmost balance column is the current one
+      const current = balanceColumns[balanceColumns.length - 1];
+      const values = await sheetsClient.readCellValues(
+        nicknameRows,
+        current.column,
+      );
+      const balance = values.get(token);
+
+      await ctx.reply(
+        `💳 ${displayName}: ${balance ?? 0}\n` +
+          `(${current.header}, column ${current.column}, row ${nicknameRows.get(token)})`,
+      );
+    } catch (error) {
+      console.error('Error reading balance:', error);
+      await ctx.reply(
+        `❌ Error reading balance: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  });
+}
+
+/**
+ * Register /paid command handler
+ */
+export function registerPaidCommand(bot: Bot<MyContext>): void {
+  /**
+   * Paid command handler - record a player's payment and show the new balance
+   * Usage: /paid @username 1500 [note]
+   */
+  bot.command('paid', async (ctx) => {
+    const match = /^@?(\S+)\s+(\d+(?:[.,]\d+)?)(?:\s+([\s\S]+))?$/.exec(
+      ctx.match.trim(),
+    );
+    if (!match) {
+      await ctx.reply(
+        '❌ Usage: /paid @username amount [note]\n\nExample: /paid @almoga 1500 cash',
+      );
+      return;
+    }
+
+    if (!(await isChatAdmin(ctx))) {
+      await ctx.reply('❌ Only chat admins can record payments.');
+      return;
+    }
+
+    const nickname = `@${match[1].replace(/^@+/, '')}`;
+    const amount = parseFloat(match[2].replace(',', '.'));
+    const note = match[3]?.trim() ?? '';
+    const recordedBy = ctx.from?.username
+      ? `@${ctx.from.username}`
+      : ctx.from?.first_name || 'unknown';
+
+    try {
+      const sheetsClient = await initSeasonSheetsClient(ctx);
+      const nicknameRows = await sheetsClient.findNicknameRows([nickname]);
+      const row = nicknameRows.get(nickname);
+      if (row === undefined) {
+        await ctx.reply(
+          `❌ ${nickname} not found in the sheet (column ${getSheetLayout().nicknameColumn}).`,
+        );
+        return;
+      }
+
+      const target = await sheetsClient.recordPayment({
+        date: new Date().toISOString().slice(0, 10),
+        nickname,
+        row,
+        amount,
+        recordedBy,
+        note,
+      });
+
+      console.log(
+        `[PAYMENT] Player: ${nickname}, Amount: ${amount}, Note: ${note || 'none'}, Target: ${target}, Chat ID: ${ctx.chat.id}, User: ${recordedBy}`,
+      );
+
+      let message = `✅ Recorded payment of ${amount} from ${nickname} in ${target}.`;
+      const balanceColumns = await sheetsClient.findBalanceColumns();
+      if (balanceColumns.length > 0) {
+        const current = balanceColumns[balanceColumns.length - 1];
+        const values = await sheetsClient.readCellValues(
+          nicknameRows,
+          current.column,
+        );
+        message += `\n💳 New balance: ${values.get(nickname) ?? 0} (${current.header})`;
+      }
+
+      await ctx.reply(message);
+    } catch (error) {
+      console.error('Error recording payment:', error);
+      await ctx.reply(
+        `❌ Error recording payment: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  });
+}
+
+/**
+ * Read current balances and return players below the threshold, lowest first
+ */
+async function findDebtors(
+  sheetsClient: SheetsClient,
+  threshold: number,
+): Promise<{ header: string; debtors: Debtor[] } | null> {
+  const balanceColumns = await sheetsClient.findBalanceColumns();
+  if (balanceColumns.length === 0) return null;
+
+  const current = balanceColumns[balanceColumns.length - 1];
+  const [nicknameRows, balances] = await Promise.all([
+    sheetsClient.findAllNicknameRows(),
+    sheetsClient.readColumnNumbers(current.column),
+  ]);
+
+  const debtors: Debtor[] = [];
+  nicknameRows.forEach((row, nickname) => {
+    const balance = balances.get(row);
+    if (balance !== undefined && balance < threshold) {
+      debtors.push({ nickname, balance });
+    }
+  });
+  debtors.sort((a, b) => a.balance - b.balance);
+
+  return { header: current.header, debtors };
+}
+
+/**
+ * Send a private reminder unless one was sent within REMINDER_COOLDOWN_HOURS
+ * Only players who started the bot (and are linked to a nickname) can be reached;
+ * renamed players are found through the spreadsheet's aliases
+ */
+async function sendReminder(
+  bot: Bot<MyContext>,
+  spreadsheetId: string,
+  debtor: Debtor,
+  header: string,
+  now: number,
+): Promise<ReminderStatus> {
+  const key = `${spreadsheetId}|${normalizeNickname(debtor.nickname)}`;
+  const lastSentAt = lastReminders.get(key);
+  if (
+    lastSentAt !== undefined &&
+    now - lastSentAt < REMINDER_COOLDOWN_HOURS * 60 * 60 * 1000
+  ) {
+    return 'recent';
+  }
+
+  const userId = [
+    ...findAliasedUsernames(spreadsheetId, debtor.nickname),
+    debtor.nickname,
+  ]
+    .map((nickname) => findLinkedUserId(spreadsheetId, nickname))
+    .find((id) => id !== undefined);
+  if (userId === undefined) return 'not_started';
+
+  try {
+    await bot.api.sendMessage(
+      userId,
+      `💳 Reminder: your football balance is ${debtor.balance} (${header}).\n` +
+        'Please settle up with the organizer.',
+    );
+  } catch (error) {
+    // 403: user never started the bot or blocked it
+    if (error instanceof GrammyError && error.error_code === 403) {
+      return 'not_started';
+    }
+    console.error(`[REMINDER] Failed to remind ${debtor.nickname}:`, error);
+    return 'failed';
+  }
+
+  lastReminders.set(key, now);
+  return 'sent';
+}
+
+/**
+ * Register /debts command handler
+ */
+export function registerDebtsCommand(bot: Bot<MyContext>): void {
+  /**
+   * Debts command handler - list players below the balance threshold
+   * Usage: /debts [threshold] [remind]
+   */
+  bot.command('debts', async (ctx) => {
+    const args = ctx.match.trim().split(/\s+/).filter(Boolean);
+    const remind = args.includes('remind');
+    const thresholdArg = args.find((arg) => arg !== 'remind');
+    const threshold =
+      thresholdArg !== undefined ? Number(thresholdArg) : DEBT_THRESHOLD;
+    if (Number.isNaN(threshold) || args.length > (remind ? 2 : 1)) {
+      await ctx.reply('❌ Usage: /debts [threshold] [remind]');
+      return;
+    }
+
+    if (remind && !(await isChatAdmin(ctx))) {
+      await ctx.reply('❌ Only chat admins can send debt reminders.');
+      return;
+    }
+
+    try {
+      const result = await findDebtors(
+        await initSeasonSheetsClient(ctx),
+        threshold,
+      );
+      if (!result) {
+        await ctx.reply(
+          '❌ No balance columns ("Баланс ...") found in the sheet.',
+        );
+        return;
+      }
+
+      const { header, debtors } = result;
+      if (debtors.length === 0) {
+        await ctx.reply(`✅ Nobody is below ${threshold} (${header}).`);
+        return;
+      }
+
+      let message = `💸 Balance below ${threshold} (${header}):\n\n`;
+      debtors.forEach((debtor) => {
+        message += `• ${debtor.nickname}: ${debtor.balance}\n`;
+      });
+      message += `\nTotal: ${debtors.length} player(s)`;
+
+      if (remind) {
+        const { spreadsheetId } = getSheetBinding(ctx);
+        const now = Date.now();
+        const statuses = new Map<ReminderStatus, string[]>();
+        for (const debtor of debtors) {
+          const status = await sendReminder(
+            bot,
+            spreadsheetId,
+            debtor,
+            header,
+            now,
+          );
+          statuses.set(status, [
+            ...(statuses.get(status) ?? []),
+            debtor.nickname,
+          ]);
+        }
+        saveReminders();
+
+        console.log(
+          `[DEBT REMINDERS] Sent: ${statuses.get('sent')?.length ?? 0}, Recent: ${statuses.get('recent')?.length ?? 0}, Not started: ${statuses.get('not_started')?.length ?? 0}, Failed: ${statuses.get('failed')?.length ?? 0}, Chat ID: ${ctx.chat.id}, User: @${ctx.from?.username || 'unknown'}`,
+        );
+
+        const labels: Array<[ReminderStatus, string]> = [
+          ['sent', '📨 Reminded'],
+          [
+            'recent',
+            `⏭️ Already reminded in the last ${REMINDER_COOLDOWN_HOURS}h`,
+          ],
+          ['not_started', '🔕 Have not started the bot'],
+          ['failed', '❌ Failed'],
+        ];
+        message += '\n';
+        for (const [status, label] of labels) {
+          const nicknames = statuses.get(status);
+          if (nicknames) {
+            message += `\n${label}: ${nicknames.join(', ')}`;
+          }
+        }
+      } else {
+        message += '\n\n💡 Send private reminders with /debts remind';
+      }
+
+      await ctx.reply(message);
+    } catch (error) {
+      console.error('Error reading debts:', error);
+      await ctx.reply(
+        `❌ Error reading debts: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  });
+}
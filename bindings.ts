@@ -0,0 +1,366 @@
+import { type Bot, InlineKeyboard } from 'grammy';
+import { isChatAdmin } from './bot-helpers';
+import type { MyContext } from './session';
+import {
+  initSheetsClient,
+  type SheetBinding,
+  type SheetsClient,
+} from './sheets';
+import { dataFilePath, readJsonFile, writeJsonFile } from './storage';
+import { recordSheetChanges, shiftUndoRanges } from './undo';
+
+const BINDINGS_PATH =
+  process.env.BINDINGS_PATH || dataFilePath('bindings.json');
+
+// Spreadsheet used by chats without their own binding (optional)
+const DEFAULT_SPREADSHEET_ID = process.env.SPREADSHEET_ID || '';
+
+/**
+ * Spreadsheet bound to a chat with /bind
+ */
+interface ChatBinding extends SheetBinding {
+  chatTitle: string;
+  boundBy: string;
+  boundAt: number;
+}
+
+interface BindingStore {
+  chats: Record<string, ChatBinding>; // Chat ID -> binding
+  selections: Record<string, number>; // User ID -> group chosen for private chat
+}
+
+const store = readJsonFile<BindingStore>(BINDINGS_PATH, {
+  chats: {},
+  selections: {},
+});
+
+const ERR_NOT_BOUND =
+  'This chat is not bound to a spreadsheet. Ask an admin to run /bind <spreadsheet-url-or-id> in the group, or pick a group sheet with /bind in a private chat.';
+
+/**
+ * Save bindings to disk
+ */
+function saveBindings(): void {
+  try {
+    writeJsonFile(BINDINGS_PATH, store);
+  } catch (error) {
+    console.error('[BINDINGS] Failed to save bindings:', error);
+  }
+}
+
+/**
+ * Extract spreadsheet ID from a Google Sheets URL or a bare ID
+ */
+function parseSpreadsheetId(text: string): string | null {
+  const urlMatch = /\/spreadsheets\/d\/([a-zA-Z0-9_-]+)/.exec(text);
+  if (urlMatch) return urlMatch[1];
+  return /^[a-zA-Z0-9_-]{20,}$/.test(text) ? text : null;
+}
+
+/**
+ * Find the chat whose binding the current chat uses
+ * Private chats use their own binding, then the group picked with /bind
+ * @returns undefined if the chat falls back to the default SPREADSHEET_ID
+ */
+export function findBindingChatId(ctx: MyContext): number | undefined {
+  const chatId = ctx.chat?.id;
+  if (chatId !== undefined && store.chats[chatId]) return chatId;
+
+  if (ctx.chat?.type === 'private' && ctx.from) {
+    const selectedChatId = store.selections[ctx.from.id];
+    if (selectedChatId !== undefined && store.chats[selectedChatId]) {
+      return selectedChatId;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find the binding configured for the current chat
+ * Falls back to the default SPREADSHEET_ID (see findBindingChatId)
+ * @throws Error if no spreadsheet is configured for the chat
+ */
+function findChatBinding(ctx: MyContext): SheetBinding {
+  const chatId = findBindingChatId(ctx);
+  if (chatId !== undefined) return store.chats[chatId];
+
+  if (DEFAULT_SPREADSHEET_ID) {
+    return { spreadsheetId: DEFAULT_SPREADSHEET_ID };
+  }
+  throw new Error(ERR_NOT_BOUND);
+}
+
+/**
+ * Get spreadsheet binding for the current chat
+ * The tab picked for a running /update flow takes precedence over the bound tab
+ * @throws Error if no spreadsheet is configured for the chat
+ */
+export function getSheetBinding(ctx: MyContext): SheetBinding {
+  const binding = findChatBinding(ctx);
+  return ctx.session?.sheetName
+    ? { ...binding, sheetName: ctx.session.sheetName }
+    : binding;
+}
+
+/**
+ * Create a Sheets client for the current chat's spreadsheet
+ * @param override - spreadsheet or tab to use instead of the chat's binding
+ * Tells the user (once per client) when Google rate-limits and requests are retried,
+ * records written cells for /undo and keeps them in place when cells shift
+ */
+export function initChatSheetsClient(
+  ctx: MyContext,
+  override: Partial<SheetBinding> = {},
+): Promise<SheetsClient> {
+  const binding = { ...getSheetBinding(ctx), ...override };
+  let notified = false;
+  return initSheetsClient(binding, {
+    onWrite: (changes) => {
+      if (!ctx.chat) return;
+      // All writes of one /update flow are undone together
+      ctx.session.undoGroupId ??= String(Date.now());
+      recordSheetChanges(
+        ctx.chat.id,
+        ctx.session.undoGroupId,
+        binding.spreadsheetId,
+        ctx.from?.username ? `@${ctx.from.username}` : 'unknown',
+        changes,
+      );
+    },
+    onShift: (sheetName, dimension, startIndex, count) => {
+      shiftUndoRanges(
+        binding.spreadsheetId,
+        sheetName,
+        dimension,
+        startIndex,
+        count,
+      );
+    },
+    onRetry: () => {
+      if (notified) return;
+      notified = true;
+      ctx
+        .reply('⏳ Google is rate-limiting us, retrying...')
+        .catch((error) =>
+          console.error('Error sending rate-limit notice:', error),
+        );
+    },
+  });
+}
+
+/**
+ * Get the tab configured for the chat (via /bind or /newseason), if any
+ */
+export function getBoundSheetName(ctx: MyContext): string | undefined {
+  return findChatBinding(ctx).sheetName;
+}
+
+/**
+ * Make a tab the chat's current one, keeping its spreadsheet
+ * @throws Error if the chat uses a group's sheet picked in a private chat
+ */
+export function setBoundSheetName(ctx: MyContext, sheetName: string): void {
+  if (!ctx.chat) return;
+
+  const ownBinding = store.chats[ctx.chat.id];
+  if (
+    !ownBinding &&
+    ctx.chat.type === 'private' &&
+    ctx.from &&
+    store.selections[ctx.from.id] !== undefined
+  ) {
+    throw new Error(
+      "This private chat uses a group's sheet. Change the season in the group.",
+    );
+  }
+
+  store.chats[ctx.chat.id] = ownBinding
+    ? { ...ownBinding, sheetName }
+    : {
+        spreadsheetId: findChatBinding(ctx).spreadsheetId,
+        sheetName,
+        chatTitle:
+          ctx.chat.type === 'private'
+            ? ctx.from?.first_name || 'Private'
+            : ctx.chat.title,
+        boundBy: ctx.from?.username ? `@${ctx.from.username}` : 'unknown',
+        boundAt: Date.now(),
+      };
+  saveBindings();
+}
+
+/**
+ * Find bound groups where the user is a member
+ */
+async function findUserGroups(
+  ctx: MyContext,
+  userId: number,
+): Promise<Array<[number, ChatBinding]>> {
+  const groups: Array<[number, ChatBinding]> = [];
+  for (const [chatId, binding] of Object.entries(store.chats)) {
+    if (Number(chatId) > 0) continue; // Private chat bindings
+    try {
+      const member = await ctx.api.getChatMember(Number(chatId), userId);
+      if (member.status !== 'left' && member.status !== 'kicked') {
+        groups.push([Number(chatId), binding]);
+      }
+    } catch {
+      // Bot was removed from the group or the group is gone
+    }
+  }
+  return groups;
+}
+
+/**
+ * Describe a binding for chat messages
+ */
+function formatBinding(binding: SheetBinding): string {
+  return `${binding.spreadsheetId}${binding.sheetName ? ` (tab "${binding.sheetName}")` : ''}`;
+}
+
+/**
+ * Show current binding and, in private chats, buttons to pick a group's sheet
+ */
+async function replyWithBindingStatus(ctx: MyContext): Promise<void> {
+  if (!ctx.chat || !ctx.from) return;
+
+  let current: string;
+  try {
+    current = formatBinding(getSheetBinding(ctx));
+  } catch {
+    current = 'none';
+  }
+
+  if (ctx.chat.type !== 'private') {
+    await ctx.reply(
+      `📎 Spreadsheet for this chat: ${current}\n\n` +
+        'Admins can change it with /bind <spreadsheet-url-or-id> [tab]',
+    );
+    return;
+  }
+
+  const groups = await findUserGroups(ctx, ctx.from.id);
+  if (groups.length === 0) {
+    await ctx.reply(
+      `📎 Spreadsheet for this chat: ${current}\n\n` +
+        'None of your groups has a bound spreadsheet. Bind one in a group with /bind <spreadsheet-url-or-id> [tab], or bind a sheet to this private chat the same way.',
+    );
+    return;
+  }
+
+  const keyboard = new InlineKeyboard();
+  groups.forEach(([chatId, binding]) => {
+    keyboard.text(binding.chatTitle, `bind:${chatId}`).row();
+  });
+  await ctx.reply(
+    `📎 Spreadsheet for this chat: ${current}\n\nPick which group's sheet to use here:`,
+    { reply_markup: keyboard },
+  );
+}
+
+/**
+ * Register /bind command and group selection buttons
+ */
+export function registerBindCommand(bot: Bot<MyContext>): void {
+  /**
+   * Bind command handler - bind the chat to a spreadsheet (admins only)
+   * Usage: /bind <spreadsheet-url-or-id> [tab]
+   * Without arguments shows the current binding (and group choice in private chats)
+   */
+  bot.command('bind', async (ctx) => {
+    const [target, ...tabParts] = ctx.match.trim().split(/\s+/).filter(Boolean);
+    if (!target) {
+      await replyWithBindingStatus(ctx);
+      return;
+    }
+
+    // A private chat binds its own sheet, whichever group it picked before
+    if (ctx.chat.type !== 'private' && !(await isChatAdmin(ctx))) {
+      await ctx.reply('❌ Only chat admins can bind a spreadsheet.');
+      return;
+    }
+
+    const spreadsheetId = parseSpreadsheetId(target);
+    if (!spreadsheetId) {
+      await ctx.reply(
+        '❌ Usage: /bind <spreadsheet-url-or-id> [tab]\n\n' +
+          'Example: /bind https://docs.google.com/spreadsheets/d/1eX1xQF31-T2iGHTfFL3CZ1b-nVxOJKRqfvFCvGGGXGU Sheet1',
+      );
+      return;
+    }
+    const sheetName = tabParts.join(' ') || undefined;
+    const binding: SheetBinding = { spreadsheetId, sheetName };
+
+    // Verify access before saving: the roster column must be readable
+    let playerCount: number;
+    try {
+      const sheetsClient = await initSheetsClient(binding);
+      playerCount = (await sheetsClient.findAllNicknameRows()).size;
+    } catch (error) {
+      console.error('Error verifying spreadsheet binding:', error);
+      await ctx.reply(
+        `❌ Cannot read the spreadsheet: ${error instanceof Error ? error.message : 'Unknown error'}\n\n` +
+          'Check the ID and tab name, and share the sheet with the service account email (Editor access).',
+      );
+      return;
+    }
+
+    const chatTitle =
+      ctx.chat.type === 'private'
+        ? ctx.from?.first_name || 'Private'
+        : ctx.chat.title;
+    store.chats[ctx.chat.id] = {
+      spreadsheetId,
+      sheetName,
+      chatTitle,
+      boundBy: ctx.from?.username ? `@${ctx.from.username}` : 'unknown',
+      boundAt: Date.now(),
+    };
+    if (ctx.chat.type === 'private' && ctx.from) {
+      delete store.selections[ctx.from.id];
+    }
+    saveBindings();
+
+    console.log(
+      `[BIND] Chat ID: ${ctx.chat.id}, Spreadsheet: ${formatBinding(binding)}, Players: ${playerCount}, User: @${ctx.from?.username || 'unknown'}`,
+    );
+    await ctx.reply(
+      `✅ This chat now uses spreadsheet ${formatBinding(binding)}.\n` +
+        `Found ${playerCount} player(s) in the roster column.`,
+    );
+  });
+
+  /**
+   * Group selection button (private chats)
+   */
+  bot.callbackQuery(/^bind:(-?\d+)$/, async (ctx) => {
+    const chatId = Number(ctx.match[1]);
+    const binding = store.chats[chatId];
+    if (!binding || ctx.chat?.type !== 'private') {
+      await ctx.answerCallbackQuery({ text: 'This group is no longer bound.' });
+      return;
+    }
+
+    try {
+      const member = await ctx.api.getChatMember(chatId, ctx.from.id);
+      if (member.status === 'left' || member.status === 'kicked') {
+        await ctx.answerCallbackQuery({
+          text: 'You are not a member of this group.',
+        });
+        return;
+      }
+    } catch {
+      await ctx.answerCallbackQuery({ text: 'Cannot check this group.' });
+      return;
+    }
+
+    // Group choice replaces the private chat's own binding
+    store.selections[ctx.from.id] = chatId;
+    delete store.chats[ctx.chat.id];
+    saveBindings();
+    await ctx.answerCallbackQuery();
+    await ctx.editMessageText(
+      `✅ This private chat now uses the sheet of "${binding.chatTitle}": ${formatBinding(binding)}`,
+    );
+  });
+}
@@ -1,6 +1,18 @@
+import { InlineKeyboard } from 'grammy';
+import { findBindingChatId } from './bindings';
 import { ERR_SESSION_DATA_LOST } from './constants';
-import { activePolls, type PollData } from './poll';
-import { type MyContext, resetSession } from './session';
+import {
+  ATTENDING_OPTION_INDEX,
+  getPollRoster,
+  getPollVotes,
+  type PollData,
+  USER_ID_TOKEN_PREFIX,
+} from './poll';
+import { activePolls } from './poll-store';
+import { type MyContext, resetSession, type SessionData } from './session';
+
+// Callback data of inline keyboard choices: "choice:<state>:<value>"
+export const CHOICE_CALLBACK_PATTERN = /^choice:([a-z_]+):(.+)$/;
 
 /**
  * Parse yes/no response from user text
@@ -31,6 +43,39 @@ export function parseYesNo(text: string): 'yes' | 'no' | null {
   return null;
 }
 
+/**
+ * Build inline keyboard for a conversation step
+ * Pressing a button is handled like typing its value in the given state
+ */
+export function buildChoiceKeyboard(
+  state: SessionData['state'],
+  choices: Array<{ label: string; value: string }>,
+  perRow: number = 2,
+): InlineKeyboard {
+  const keyboard = new InlineKeyboard();
+  choices.forEach((choice, index) => {
+    if (index > 0 && index % perRow === 0) {
+      keyboard.row();
+    }
+    keyboard.text(choice.label, `choice:${state}:${choice.value}`);
+  });
+  return keyboard;
+}
+
+/**
+ * Build yes/no inline keyboard for a conversation step
+ */
+export function buildYesNoKeyboard(
+  state: SessionData['state'],
+  yesLabel: string = '✅ Yes',
+  noLabel: string = '❌ No',
+): InlineKeyboard {
+  return buildChoiceKeyboard(state, [
+    { label: yesLabel, value: 'yes' },
+    { label: noLabel, value: 'no' },
+  ]);
+}
+
 /**
  * Reply with error message and reset session
  */
@@ -71,9 +116,15 @@ export async function requireSessionFields(
  */
 export function buildPollOptionsText(pollData: PollData): string {
   let optionsText = '';
+  const votes = getPollVotes(pollData);
   pollData.options.forEach((option, index) => {
-    const voters = pollData.votes.get(index) || new Set();
-    optionsText += `${index + 1}. ${option} (${voters.size} vote${voters.size !== 1 ? 's' : ''})\n`;
+    const voters = votes.get(index) || new Set();
+    optionsText += `${index + 1}. ${option} (${voters.size} vote${voters.size !== 1 ? 's' : ''})`;
+    if (index === ATTENDING_OPTION_INDEX && pollData.capacity !== undefined) {
+      const roster = getPollRoster(pollData);
+      optionsText += ` - main ${roster.main.length}/${pollData.capacity}, waitlist ${roster.waitlist.length}`;
+    }
+    optionsText += '\n';
   });
   return optionsText;
 }
@@ -104,6 +155,22 @@ export async function getPollDataOrError(
   return { pollId, pollData };
 }
 
+/**
+ * Format voter token for messages
+ * Voters without username are shown by display name with their user id
+ */
+export function formatVoterToken(
+  token: string,
+  voterNames?: Array<[string, string]>,
+): string {
+  if (!token.startsWith(USER_ID_TOKEN_PREFIX)) {
+    return token;
+  }
+  const userId = token.slice(USER_ID_TOKEN_PREFIX.length);
+  const name = voterNames?.find(([t]) => t === token)?.[1] ?? 'Unknown';
+  return `${name} (no username, id ${userId})`;
+}
+
 /**
  * Build the final update result message
  */
@@ -113,6 +180,8 @@ export function buildUpdateResultMessage(
   updatedNicknames: string[],
   skippedNicknames: string[],
   notFoundNicknames: string[],
+  chargeSummary?: string,
+  addedNicknames: string[] = [],
 ): string {
   let response = `✅ Updated ${updatedCount} record(s) in column ${column}`;
 
@@ -123,6 +192,15 @@ export function buildUpdateResultMessage(
     response += `.\n`;
   }
 
+  if (chargeSummary) {
+    response += `\n\n${chargeSummary}`;
+  }
+
+  if (addedNicknames.length > 0) {
+    response += `\n\n➕ Added to the roster:\n`;
+    response += addedNicknames.map((n) => `• ${n}`).join('\n');
+  }
+
   if (skippedNicknames.length > 0) {
     response += `\n\n⏭️ Skipped ${skippedNicknames.length} cell(s) with existing values:\n`;
     response += skippedNicknames.map((n) => `• ${n}`).join('\n');
@@ -131,6 +209,9 @@ export function buildUpdateResultMessage(
   if (notFoundNicknames.length > 0) {
     response += `\n\n⚠️ Not found in sheet:\n`;
     response += notFoundNicknames.map((n) => `• ${n}`).join('\n');
+    if (notFoundNicknames.some((n) => n.includes('(no username, id '))) {
+      response += `\n\n💡 Link voters without username: /linkid <id> @nickname`;
+    }
   }
 
   return response;
@@ -152,3 +233,28 @@ export async function handleApiError(
   }
   await replyErrorAndReset(ctx, message);
 }
+
+/**
+ * Check whether the sender may use admin commands
+ * In groups the sender must be a chat admin; private chats are allowed unless
+ * they use a group's sheet (picked with /bind), then the sender must be an
+ * admin of that group
+ */
+export async function isChatAdmin(ctx: MyContext): Promise<boolean> {
+  if (!ctx.chat || !ctx.from) return false;
+
+  let chatId = ctx.chat.id;
+  if (ctx.chat.type === 'private') {
+    const bindingChatId = findBindingChatId(ctx);
+    if (bindingChatId === undefined || bindingChatId === chatId) return true;
+    chatId = bindingChatId;
+  }
+
+  try {
+    const member = await ctx.api.getChatMember(chatId, ctx.from.id);
+    return member.status === 'creator' || member.status === 'administrator';
+  } catch (error) {
+    console.error(`Error checking admin status in chat ${chatId}:`, error);
+    return false;
+  }
+}
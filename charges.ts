@@ -0,0 +1,154 @@
+/**
+ * What to write into attendee cells:
+ * - zero: 0 (attendance mark only)
+ * - share: per-player share of the field cost
+ * - debit: negative per-player share
+ */
+type ChargeMode = 'zero' | 'share' | 'debit';
+
+/**
+ * How to round the per-player share:
+ * - none: keep cents
+ * - up10: round up to the next multiple of 10
+ * - bankers: round half to even (whole units)
+ */
+type ChargeRounding = 'none' | 'up10' | 'bankers';
+
+/**
+ * What to do with the difference between the field cost and the rounded shares:
+ * - none: ignore it
+ * - spread: add/subtract one rounding unit (10 for up10, 1 for bankers) per
+ *   written attendee, starting from the first one
+ */
+type ChargeRemainder = 'none' | 'spread';
+
+// Smallest amount a rounded share can change by
+const ROUNDING_UNITS: Record<Exclude<ChargeRounding, 'none'>, number> = {
+  up10: 10,
+  bankers: 1,
+};
+
+const CHARGE_MODES: ChargeMode[] = ['zero', 'share', 'debit'];
+const CHARGE_ROUNDINGS: ChargeRounding[] = ['none', 'up10', 'bankers'];
+const CHARGE_REMAINDERS: ChargeRemainder[] = ['none', 'spread'];
+
+/**
+ * Read enum-like env variable, failing fast on typos
+ */
+function readEnvOption<T extends string>(
+  name: string,
+  allowed: T[],
+  fallback: T,
+): T {
+  const value = (process.env[name] || fallback).toLowerCase() as T;
+  if (!allowed.includes(value)) {
+    throw new Error(
+      `Invalid ${name} "${value}". Allowed values: ${allowed.join(', ')}`,
+    );
+  }
+  return value;
+}
+
+const CHARGE_MODE = readEnvOption('CHARGE_MODE', CHARGE_MODES, 'zero');
+const CHARGE_ROUNDING = readEnvOption(
+  'CHARGE_ROUNDING',
+  CHARGE_ROUNDINGS,
+  'none',
+);
+const CHARGE_REMAINDER = readEnvOption(
+  'CHARGE_REMAINDER',
+  CHARGE_REMAINDERS,
+  'none',
+);
+
+interface ChargeResult {
+  share: number; // Rounded per-player share (positive)
+  amounts: Map<string, number>; // Nickname -> value to write
+  summary: string; // Human readable explanation for the result message
+}
+
+/**
+ * Round half to even ("banker's rounding") to whole units
+ */
+function roundHalfToEven(value: number): number {
+  const floor = Math.floor(value);
+  const diff = value - floor;
+  if (Math.abs(diff - 0.5) < 1e-9) {
+    return floor % 2 === 0 ? floor : floor + 1;
+  }
+  return Math.round(value);
+}
+
+/**
+ * Round per-player share according to CHARGE_ROUNDING
+ */
+function roundShare(share: number): number {
+  switch (CHARGE_ROUNDING) {
+    case 'up10':
+      return Math.ceil(share / 10) * 10;
+    case 'bankers':
+      return roundHalfToEven(share);
+    default:
+      return Math.round(share * 100) / 100;
+  }
+}
+
+/**
+ * Check whether attendee cells get cost shares instead of zeros
+ */
+function isChargeEnabled(): boolean {
+  return CHARGE_MODE !== 'zero';
+}
+
+/**
+ * Compute value to write for each attendee
+ * Share is based on the column's cost (row 2) and player count (row 3);
+ * nicknames are the attendees actually written (kept cells excluded)
+ */
+function computeCharges(
+  cost: number,
+  playerCount: number,
+  nicknames: string[],
+): ChargeResult {
+  if (playerCount <= 0) {
+    throw new Error('Player count must be positive to compute cost shares');
+  }
+
+  const exactShare = cost / playerCount;
+  const share = roundShare(exactShare);
+  const sign = CHARGE_MODE === 'debit' ? -1 : 1;
+  const amounts = new Map<string, number>();
+  nicknames.forEach((nickname) => {
+    amounts.set(nickname, sign * share);
+  });
+
+  let summary =
+    `💰 Share: ${cost} / ${playerCount} = ${Math.round(exactShare * 100) / 100}` +
+    (share !== exactShare ? ` → ${share} (${CHARGE_ROUNDING})` : '') +
+    ` per player${CHARGE_MODE === 'debit' ? ', written as debit' : ''}`;
+
+  // Spread the rounding difference of the written attendees one rounding unit
+  // at a time, starting from the first attendee
+  if (CHARGE_REMAINDER === 'spread' && CHARGE_ROUNDING !== 'none') {
+    const unit = ROUNDING_UNITS[CHARGE_ROUNDING];
+    const units = Math.round(
+      (exactShare * nicknames.length - share * nicknames.length) / unit,
+    );
+    const step = units > 0 ? unit : -unit;
+    const adjusted = nicknames.slice(0, Math.abs(units));
+    adjusted.forEach((nickname) => {
+      amounts.set(nickname, sign * (share + step));
+    });
+    if (adjusted.length > 0) {
+      summary += `\n↕️ Remainder ${units * unit} spread as ${step > 0 ? '+' : ''}${step} over ${adjusted.length} player(s)`;
+    }
+    const unassigned = (Math.abs(units) - adjusted.length) * unit;
+    if (unassigned > 0) {
+      summary += `\n⚠️ ${units > 0 ? unassigned : -unassigned} of the remainder could not be assigned (more than ${step > 0 ? '+' : ''}${step} per player)`;
+    }
+  }
+
+  return { share, amounts, summary };
+}
+
+export { computeCharges, isChargeEnabled, type ChargeResult };
@@ -2,6 +2,7 @@ import type { Bot } from 'grammy';
 import { MSG_USE_UPDATE_AGAIN } from './constants';
 import type { MyContext } from './session';
 import { resetSession } from './session';
+import { linkUser } from './user-links';
 import { startColumnDetectionFlow } from './workflow';
 
 /**
@@ -12,11 +13,27 @@ export function registerCommands(bot: Bot<MyContext>): void {
    * Start command handler - shows help/welcome message
    */
   bot.command('start', async (ctx) => {
+    // Remember who started the bot so /debts can send them reminders
+    if (ctx.chat.type === 'private' && ctx.from?.username) {
+      linkUser(ctx.from.id, `@${ctx.from.username}`);
+    }
     await ctx.reply(
       `👋 Welcome to Football Poll Sheets Sync Bot!\n\n` +
         `📖 Commands:\n` +
         `• /poll - Create a trackable poll\n` +
-        `• /update - Update Google Sheet with attending players\n` +
+        `• /closepoll - Close the latest poll (or reply to a poll) and freeze the roster\n` +
+        `• /schedule - Manage recurring weekly polls\n` +
+        `• /pollhistory - Show vote changes and late cancellations\n` +
+        `• /update [tab] [--dry-run] - Update Google Sheet with attending players\n` +
+        `• /undo - Revert the last sheet update (author or admins)\n` +
+        `• /linkid - Match a voter without username to a sheet nickname (admins)\n` +
+        `• /alias @old @new - Match a renamed Telegram username to its sheet nickname (admins)\n` +
+        `• /balance [@user] - Show current balance\n` +
+        `• /debts [threshold] [remind] - List players below the balance threshold (remind: admins)\n` +
+        `• /paid @user amount [note] - Record a payment (admins)\n` +
+        `• /bind - Bind this chat to a spreadsheet (admins) or pick a group's sheet\n` +
+        `• /newseason <tab> - Start a new season tab (admins)\n` +
+        `• /layout - Show the sheet layout (admins)\n` +
         `• /help - Show this help\n` +
         `• /cancel or /abort - Cancel current operation\n\n` +
         `💡 Tip: Forward a poll created by this bot to see voters or update the sheet!`,
@@ -30,7 +47,19 @@ export function registerCommands(bot: Bot<MyContext>): void {
     await ctx.reply(
       `📖 Help:\n\n` +
         `• /poll - Create a trackable poll\n` +
-        `• /update - Update Google Sheet with attending players\n` +
+        `• /closepoll - Close the latest poll (or reply to a poll) and freeze the roster\n` +
+        `• /schedule - Manage recurring weekly polls\n` +
+        `• /pollhistory - Show vote changes and late cancellations\n` +
+        `• /update [tab] [--dry-run] - Update Google Sheet with attending players\n` +
+        `• /undo - Revert the last sheet update (author or admins)\n` +
+        `• /linkid - Match a voter without username to a sheet nickname (admins)\n` +
+        `• /alias @old @new - Match a renamed Telegram username to its sheet nickname (admins)\n` +
+        `• /balance [@user] - Show current balance\n` +
+        `• /debts [threshold] [remind] - List players below the balance threshold (remind: admins)\n` +
+        `• /paid @user amount [note] - Record a payment (admins)\n` +
+        `• /bind - Bind this chat to a spreadsheet (admins) or pick a group's sheet\n` +
+        `• /newseason <tab> - Start a new season tab (admins)\n` +
+        `• /layout - Show the sheet layout (admins)\n` +
         `• /help - Show this help\n` +
         `• /cancel or /abort - Cancel current operation\n\n` +
         `The bot will guide you through updating a column step by step.`,
@@ -39,10 +68,17 @@ export function registerCommands(bot: Bot<MyContext>): void {
 
   /**
    * Update command handler - main workflow (column detection)
+   * Optional argument picks the tab: /update Season 2026/27
+   * With --dry-run the flow stops after the write preview: /update --dry-run
    */
   bot.command('update', async (ctx) => {
+    const args = ctx.match.trim().split(/\s+/).filter(Boolean);
+    const dryRun = args.includes('--dry-run');
+    const tab = args.filter((arg) => arg !== '--dry-run').join(' ');
+
     resetSession(ctx.session);
-    await startColumnDetectionFlow(ctx);
+    ctx.session.dryRun = dryRun || undefined;
+    await startColumnDetectionFlow(ctx, tab || undefined);
   });
 
   /**
@@ -0,0 +1,299 @@
+// Weekday names (English and Russian) -> JS weekday index (0 = Sunday)
+const WEEKDAYS: Record<string, number> = {
+  sun: 0,
+  sunday: 0,
+  вс: 0,
+  воскресенье: 0,
+  mon: 1,
+  monday: 1,
+  пн: 1,
+  понедельник: 1,
+  tue: 2,
+  tuesday: 2,
+  вт: 2,
+  вторник: 2,
+  wed: 3,
+  wednesday: 3,
+  ср: 3,
+  среда: 3,
+  среду: 3,
+  thu: 4,
+  thursday: 4,
+  чт: 4,
+  четверг: 4,
+  fri: 5,
+  friday: 5,
+  пт: 5,
+  пятница: 5,
+  пятницу: 5,
+  sat: 6,
+  saturday: 6,
+  сб: 6,
+  суббота: 6,
+  субботу: 6,
+};
+
+// Month names (English and Russian, full, genitive and short) -> month (1-12)
+const MONTHS: Record<string, number> = {
+  jan: 1,
+  january: 1,
+  янв: 1,
+  январь: 1,
+  января: 1,
+  feb: 2,
+  february: 2,
+  фев: 2,
+  февраль: 2,
+  февраля: 2,
+  mar: 3,
+  march: 3,
+  мар: 3,
+  март: 3,
+  марта: 3,
+  apr: 4,
+  april: 4,
+  апр: 4,
+  апрель: 4,
+  апреля: 4,
+  may: 5,
+  май: 5,
+  мая: 5,
+  jun: 6,
+  june: 6,
+  июн: 6,
+  июнь: 6,
+  июня: 6,
+  jul: 7,
+  july: 7,
+  июл: 7,
+  июль: 7,
+  июля: 7,
+  aug: 8,
+  august: 8,
+  авг: 8,
+  август: 8,
+  августа: 8,
+  sep: 9,
+  sept: 9,
+  september: 9,
+  сен: 9,
+  сент: 9,
+  сентябрь: 9,
+  сентября: 9,
+  oct: 10,
+  october: 10,
+  окт: 10,
+  октябрь: 10,
+  октября: 10,
+  nov: 11,
+  november: 11,
+  ноя: 11,
+  нояб: 11,
+  ноябрь: 11,
+  ноября: 11,
+  dec: 12,
+  december: 12,
+  дек: 12,
+  декабрь: 12,
+  декабря: 12,
+};
+
+// Google Sheets date serial numbers count days from this date (UTC)
+const SHEETS_EPOCH_MS = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Serial numbers in this range are treated as dates (years 1982-2119)
+const MIN_DATE_SERIAL = 30000;
+const MAX_DATE_SERIAL = 80000;
+
+/**
+ * Calendar day parsed from a header or a search query
+ * Year is optional: headers like "December 13" match any year
+ */
+export interface DayMonth {
+  day: number;
+  month: number; // 1-12
+  year?: number;
+}
+
+/**
+ * Parse weekday name (English or Russian, full or short)
+ * @returns weekday index (0 = Sunday) or null if not recognized
+ */
+export function parseWeekday(text: string): number | null {
+  const weekday = WEEKDAYS[text.trim().toLowerCase()];
+  return weekday === undefined ? null : weekday;
+}
+
+/**
+ * Check if text is a month name (English or Russian, full, genitive or short)
+ */
+export function isMonthName(text: string): boolean {
+  return MONTHS[text.trim().toLowerCase()] !== undefined;
+}
+
+/**
+ * Build a DayMonth if day and month are a valid calendar day
+ */
+function toDayMonth(
+  day: number,
+  month: number,
+  year?: number,
+): DayMonth | null {
+  if (month < 1 || month > 12 || day < 1) return null;
+  const fullYear = year !== undefined && year < 100 ? 2000 + year : year;
+  // Day 0 of the next month is the last day of this month (leap year if unknown)
+  const daysInMonth = new Date(fullYear ?? 2024, month, 0).getDate();
+  if (day > daysInMonth) return null;
+  return fullYear === undefined
+    ? { day, month }
+    : { day, month, year: fullYear };
+}
+
+/**
+ * Convert a Google Sheets date serial number (date-typed cell) to a DayMonth
+ * @returns null if the number does not look like a date
+ */
+export function parseDateSerial(serial: number): DayMonth | null {
+  if (serial < MIN_DATE_SERIAL || serial > MAX_DATE_SERIAL) return null;
+  const date = new Date(SHEETS_EPOCH_MS + Math.floor(serial) * DAY_MS);
+  return {
+    day: date.getUTCDate(),
+    month: date.getUTCMonth() + 1,
+    year: date.getUTCFullYear(),
+  };
+}
+
+/**
+ * Parse a date written as dd.mm[.yyyy], dd/mm[/yyyy], ISO yyyy-mm-dd,
+ * or with an English/Russian month name ("December 13", "13 декабря", "13 Dec 2025")
+ * Weekday names around the date are ignored ("Sat, 13.12")
+ * @returns null if the text has no recognizable date
+ */
+export function parseDayMonth(text: string): DayMonth | null {
+  const normalized = text.trim().toLowerCase();
+
+  const iso = /(\d{4})-(\d{1,2})-(\d{1,2})/.exec(normalized);
+  if (iso) {
+    return toDayMonth(Number(iso[3]), Number(iso[2]), Number(iso[1]));
+  }
+
+  const numeric =
+    /(?:^|[^\d])(\d{1,2})[./](\d{1,2})(?:[./](\d{4}|\d{2}))?(?![\d])/.exec(
+      normalized,
+    );
+  if (numeric) {
+    return toDayMonth(
+      Number(numeric[1]),
+      Number(numeric[2]),
+      numeric[3] === undefined ? undefined : Number(numeric[3]),
+    );
+  }
+
+  // Month name with a day number before or after it
+  const tokens = normalized.split(/[^\p{L}\d]+/u).filter(Boolean);
+  const monthIndex = tokens.findIndex((token) => MONTHS[token] !== undefined);
+  if (monthIndex === -1) return null;
+  const month = MONTHS[tokens[monthIndex]];
+
+  const numbers = tokens
+    .map((token) => /^(\d{1,4})(?:st|nd|rd|th|е|го)?$/.exec(token)?.[1])
+    .map((value) => (value === undefined ? undefined : Number(value)));
+  const day = numbers.find((value) => value !== undefined && value <= 31);
+  if (day === undefined) return null;
+  const year = numbers.find((value) => value !== undefined && value >= 1000);
+  return toDayMonth(day, month, year);
+}
+
+/**
+ * Get the most recent (today included) and the upcoming date of a weekday
+ */
+function getWeekdayDates(weekday: number, now: Date): Date[] {
+  const recent = new Date(now);
+  recent.setDate(now.getDate() - ((now.getDay() - weekday + 7) % 7));
+  const upcoming = new Date(recent);
+  upcoming.setDate(recent.getDate() + 7);
+  return [recent, upcoming];
+}
+
+/**
+ * Parse a date search query into candidate days
+ * A weekday name ("saturday", "сб") means the most recent or the upcoming one
+ * @returns empty array if the query is not a date
+ */
+export function parseDateQuery(text: string, now = new Date()): DayMonth[] {
+  const weekday = parseWeekday(text);
+  if (weekday !== null) {
+    return getWeekdayDates(weekday, now).map((date) => ({
+      day: date.getDate(),
+      month: date.getMonth() + 1,
+      year: date.getFullYear(),
+    }));
+  }
+
+  const date = parseDayMonth(text);
+  return date ? [date] : [];
+}
+
+/**
+ * Check if two parsed days are the same (years compared only if both are known)
+ */
+export function isSameDay(a: DayMonth, b: DayMonth): boolean {
+  return (
+    a.day === b.day &&
+    a.month === b.month &&
+    (a.year === undefined || b.year === undefined || a.year === b.year)
+  );
+}
+
+/**
+ * Get a comparable day number (days since 1970-01-01) for a date in a year
+ */
+function toDayNumber(date: DayMonth, year: number): number {
+  return Date.UTC(year, date.month - 1, date.day) / DAY_MS;
+}
+
+/**
+ * Turn header dates into comparable day numbers, left to right
+ * Headers without a year continue the previous header's year, rolling over
+ * to the next year when the date goes back (e.g. December -> January)
+ */
+export function toDayNumbers(
+  dates: Array<DayMonth | null>,
+  startYear = new Date().getFullYear(),
+): Array<number | null> {
+  let year = dates.find((date) => date?.year !== undefined)?.year ?? startYear;
+  let previous: number | undefined;
+
+  return dates.map((date) => {
+    if (!date) return null;
+    if (date.year !== undefined) {
+      year = date.year;
+    } else if (
+      previous !== undefined &&
+      toDayNumber(date, year) < previous - 31
+    ) {
+      year++;
+    }
+    previous = toDayNumber(date, year);
+    return previous;
+  });
+}
+
+/**
+ * Get the day number of a date, picking the year closest to a reference day
+ * when the date has no year
+ */
+export function nearestDayNumber(date: DayMonth, reference: number): number {
+  if (date.year !== undefined) return toDayNumber(date, date.year);
+
+  const referenceYear = new Date(reference * DAY_MS).getUTCFullYear();
+  const candidates = [referenceYear - 1, referenceYear, referenceYear + 1].map(
+    (year) => toDayNumber(date, year),
+  );
+  return candidates.reduce((best, candidate) =>
+    Math.abs(candidate - reference) < Math.abs(best - reference)
+      ? candidate
+      : best,
+  );
+}
@@ -1,25 +1,43 @@
-import { handleApiError, parseYesNo, replyErrorAndReset } from '../bot-helpers';
+import { initChatSheetsClient } from '../bindings';
+import {
+  buildChoiceKeyboard,
+  handleApiError,
+  parseYesNo,
+  replyErrorAndReset,
+} from '../bot-helpers';
 import {
   ERR_INVALID_YES_NO,
   ERR_SESSION_DATA_LOST,
   ERR_TARGET_COLUMN_NOT_SET,
   MSG_USE_UPDATE_AGAIN,
-  SHEET_DATA_FIRST_COLUMN,
 } from '../constants';
+import { isMonthName, parseWeekday } from '../dates';
 import type { MyContext } from '../session';
 import { resetSession } from '../session';
-import { getNextColumnLetter, initSheetsClient } from '../sheets';
 import { proceedWithMetadataCollection } from '../workflow';
 
+/**
+ * Check if text is a column letter (A-Z, AA-ZZ, AAA-ZZZ)
+ * Weekday and month names like "sat" or "dec" are date searches, not columns
+ */
+function isColumnLetter(text: string): boolean {
+  return (
+    /^[A-Z]{1,3}$/i.test(text) &&
+    parseWeekday(text) === null &&
+    !isMonthName(text)
+  );
+}
+
 /**
  * Start new column creation flow - ask for date name
+ * The column is inserted at its chronological position once the date is known
  */
-async function askForDateName(ctx: MyContext, column: string): Promise<void> {
-  ctx.session.targetColumn = column;
+async function askForDateName(ctx: MyContext): Promise<void> {
+  ctx.session.targetColumn = undefined;
   ctx.session.isNewColumn = true;
   ctx.session.state = 'awaiting_date_name';
   await ctx.reply(
-    `📅 Please provide the date name for column ${column} (row 1):`,
+    '📅 Please provide the date name for the new column (row 1):',
   );
 }
 
@@ -48,16 +66,14 @@ export async function handleColumnConfirmation(
     if (answer === 'yes') {
       await proceedWithMetadataCollection(ctx);
     } else {
-      // Calculate next column and go directly to date name
-      const nextColumn = getNextColumnLetter(ctx.session.targetColumn);
-      await askForDateName(ctx, nextColumn);
+      // New column: go directly to date name
+      await askForDateName(ctx);
     }
     return true;
   }
 
-  // Check if input is a column letter (A-Z, AA-ZZ)
-  const columnLetterPattern = /^[A-Z]{1,2}$/i;
-  if (columnLetterPattern.test(trimmedText)) {
+  // Check if input is a column letter (A-Z, AA-ZZ, AAA-ZZZ)
+  if (isColumnLetter(trimmedText)) {
     ctx.session.targetColumn = trimmedText.toUpperCase();
     ctx.session.isNewColumn = false;
     await proceedWithMetadataCollection(ctx);
@@ -66,7 +82,7 @@ export async function handleColumnConfirmation(
 
   // Otherwise, treat as date text search
   try {
-    const sheetsClient = await initSheetsClient();
+    const sheetsClient = await initChatSheetsClient(ctx);
     const result = await sheetsClient.findColumnByDateText(trimmedText);
 
     if (!result.success) {
@@ -89,7 +105,15 @@ export async function handleColumnConfirmation(
         });
         message += `\nPlease choose a column by typing its number (1-${result.matches.length}) or column letter:`;
 
-        await ctx.reply(message);
+        await ctx.reply(message, {
+          reply_markup: buildChoiceKeyboard(
+            'awaiting_column_selection',
+            result.matches.map((match, index) => ({
+              label: `${match.column}: ${match.date}`,
+              value: String(index + 1),
+            })),
+          ),
+        });
         return true;
       }
 
@@ -133,9 +157,7 @@ export async function handleNewColumnChoice(
   }
 
   if (answer === 'yes') {
-    // targetColumn is already set from workflow.ts
-    const column = ctx.session.targetColumn || SHEET_DATA_FIRST_COLUMN;
-    await askForDateName(ctx, column);
+    await askForDateName(ctx);
   } else {
     resetSession(ctx.session);
     await ctx.reply(`✅ Operation cancelled. ${MSG_USE_UPDATE_AGAIN}`);
@@ -182,8 +204,7 @@ export async function handleColumnSelection(
   }
 
   // Check if user typed a column letter
-  const columnLetterPattern = /^[A-Z]{1,2}$/i;
-  if (columnLetterPattern.test(trimmedText)) {
+  if (isColumnLetter(trimmedText)) {
     const columnLetter = trimmedText.toUpperCase();
     const match = ctx.session.columnMatches.find(
       (m) => m.column === columnLetter,
@@ -228,8 +249,24 @@ export async function handleDateName(
 
   ctx.session.dateName = trimmed;
 
-  const targetColumn = ctx.session.targetColumn;
-  if (!targetColumn) {
+  // New column: find its chronological position (inserted on write)
+  if (ctx.session.isNewColumn) {
+    try {
+      const sheetsClient = await initChatSheetsClient(ctx);
+      const planned = await sheetsClient.planGameColumn(trimmed);
+      ctx.session.targetColumn = planned.column;
+      await ctx.reply(
+        planned.after
+          ? `➕ New column will be inserted at ${planned.column}, after column ${planned.after}.`
+          : `➕ New column will be inserted at ${planned.column}, before the other games.`,
+      );
+    } catch (error) {
+      await handleApiError(ctx, error, 'planning new column');
+      return true;
+    }
+  }
+
+  if (!ctx.session.targetColumn) {
     await replyErrorAndReset(
       ctx,
       '❌ Error: target column not set. Start over with /update',
@@ -237,13 +274,10 @@ export async function handleDateName(
     return true;
   }
 
-  try {
-    const sheetsClient = await initSheetsClient();
-    await sheetsClient.writeColumnMetadata(targetColumn, ctx.session.dateName);
-  } catch (error) {
-    await handleApiError(ctx, error, 'writing date', false);
-    return true;
-  }
+  ctx.session.pendingMetadata = {
+    ...ctx.session.pendingMetadata,
+    date: ctx.session.dateName,
+  };
 
   // Continue to cost check
   await proceedWithMetadataCollection(ctx);
@@ -278,17 +312,10 @@ export async function handleCost(
     return true;
   }
 
-  try {
-    const sheetsClient = await initSheetsClient();
-    await sheetsClient.writeColumnMetadata(
-      targetColumn,
-      undefined,
-      ctx.session.cost,
-    );
-  } catch (error) {
-    await handleApiError(ctx, error, 'writing cost', false);
-    return true;
-  }
+  ctx.session.pendingMetadata = {
+    ...ctx.session.pendingMetadata,
+    cost: ctx.session.cost,
+  };
 
   // Continue to player count check
   await proceedWithMetadataCollection(ctx);
@@ -1,5 +1,7 @@
 import type { Bot } from 'grammy';
-import type { MyContext } from '../session';
+import { CHOICE_CALLBACK_PATTERN } from '../bot-helpers';
+import { MSG_SESSION_EXPIRED } from '../constants';
+import { isSessionExpired, type MyContext, resetSession } from '../session';
 import {
   handleColumnConfirmation,
   handleColumnSelection,
@@ -13,12 +15,71 @@ import {
   registerPollMessageHandler,
 } from './poll-handlers';
 import {
+  handleNicknameSuggestions,
   handleOverrideConfirmation,
   handlePlayerCount,
   handlePlayerCountConfirmation,
+  handleRosterAddition,
   handleUsernames,
+  handleWriteConfirmation,
 } from './sheet-handlers';
 
+/**
+ * Register middleware that stamps session activity time
+ * Must be registered right after the session middleware
+ */
+export function registerSessionActivityTracker(bot: Bot<MyContext>): void {
+  bot.use(async (ctx, next) => {
+    await next();
+
+    // Updates without a chat (e.g. poll_answer) have no session
+    if (!ctx.chat) return;
+
+    ctx.session.updatedAt =
+      ctx.session.state === 'idle' ? undefined : Date.now();
+  });
+}
+
+/**
+ * Run user input through the state machine
+ * Shared by typed text and inline keyboard buttons
+ */
+async function dispatchInput(ctx: MyContext, input: string): Promise<void> {
+  const text = input.trim().toLowerCase();
+  const rawText = input.trim();
+
+  // Cancel stale flows instead of acting on an old state
+  if (isSessionExpired(ctx.session)) {
+    resetSession(ctx.session);
+    await ctx.reply(MSG_SESSION_EXPIRED);
+    return;
+  }
+
+  // Try each handler in order - first match wins
+  // Poll handlers
+  if (await handlePollIntent(ctx, text)) return;
+  if (await handlePollOptionSelection(ctx, rawText)) return;
+
+  // Column handlers
+  if (await handleColumnConfirmation(ctx, text)) return;
+  if (await handleColumnSelection(ctx, rawText)) return;
+  if (await handleNewColumnChoice(ctx, text)) return;
+  if (await handleDateName(ctx, rawText)) return;
+  if (await handleCost(ctx, text)) return;
+
+  // Sheet handlers
+  if (await handleUsernames(ctx, rawText)) return;
+  if (await handleNicknameSuggestions(ctx, text)) return;
+  if (await handleRosterAddition(ctx, text)) return;
+  if (await handlePlayerCountConfirmation(ctx, text)) return;
+  if (await handlePlayerCount(ctx, text)) return;
+  if (await handleOverrideConfirmation(ctx, text)) return;
+  if (await handleWriteConfirmation(ctx, text)) return;
+
+  // Default: idle state
+  await ctx.reply('👋 Use /start to begin updating a column.');
+}
+
 /**
  * Register all message handlers
  */
@@ -28,28 +89,45 @@ export function registerMessageHandlers(bot: Bot<MyContext>): void {
 
   // Register text message handler (state machine)
   bot.on('message:text', async (ctx) => {
-    const text = ctx.message.text.trim().toLowerCase();
-    const rawText = ctx.message.text.trim();
-
-    // Try each handler in order - first match wins
-    // Poll handlers
-    if (await handlePollIntent(ctx, text)) return;
-    if (await handlePollOptionSelection(ctx, rawText)) return;
-
-    // Column handlers
-    if (await handleColumnConfirmation(ctx, text)) return;
-    if (await handleColumnSelection(ctx, rawText)) return;
-    if (await handleNewColumnChoice(ctx, text)) return;
-    if (await handleDateName(ctx, rawText)) return;
-    if (await handleCost(ctx, text)) return;
-
-    // Sheet handlers
-    if (await handleUsernames(ctx, rawText)) return;
-    if (await handlePlayerCountConfirmation(ctx, text)) return;
-    if (await handlePlayerCount(ctx, text)) return;
-    if (await handleOverrideConfirmation(ctx, text)) return;
-
-    // Default: idle state
-    await ctx.reply('👋 Use /start to begin updating a column.');
+    await dispatchInput(ctx, ctx.message.text);
+  });
+
+  // Register inline keyboard handler (same state machine as typed answers)
+  bot.callbackQuery(CHOICE_CALLBACK_PATTERN, async (ctx) => {
+    const [data, state, value] = ctx.match;
+    const message = ctx.callbackQuery.message;
+
+    // Button from an old prompt: the conversation has moved on
+    if (ctx.session.state !== state) {
+      await ctx.answerCallbackQuery({
+        text: 'This question is no longer active.',
+      });
+      try {
+        await ctx.editMessageReplyMarkup();
+      } catch {
+        // Message might be too old to edit, ignore
+      }
+      return;
+    }
+
+    await ctx.answerCallbackQuery();
+
+    // Show chosen answer in the original prompt and remove the keyboard
+    const label =
+      message?.reply_markup?.inline_keyboard
+        .flat()
+        .find(
+          (button) =>
+            'callback_data' in button && button.callback_data === data,
+        )?.text ?? value;
+    if (message?.text) {
+      try {
+        await ctx.editMessageText(`${message.text}\n\n➡️ ${label}`);
+      } catch {
+        // Message might be too old to edit, ignore
+      }
+    }
+
+    await dispatchInput(ctx, value);
   });
 }
@@ -1,10 +1,19 @@
 import type { Bot } from 'grammy';
 import {
+  buildChoiceKeyboard,
   buildPollOptionsText,
   getPollDataOrError,
   replyErrorAndReset,
 } from '../bot-helpers';
-import { activePolls } from '../poll';
+import {
+  ATTENDING_OPTION_INDEX,
+  buildPollVotersText,
+  getConfirmedVoters,
+  getPollRoster,
+  getVoterDisplayName,
+  getVoterToken,
+} from '../poll';
+import { activePolls, loadPollStore } from '../poll-store';
 import type { MyContext } from '../session';
 import { resetSession } from '../session';
 import { startColumnDetectionFlow } from '../workflow';
@@ -13,6 +22,8 @@ import { startColumnDetectionFlow } from '../workflow';
  * Register forwarded poll message handler
  */
 export function registerPollMessageHandler(bot: Bot<MyContext>): void {
+  loadPollStore();
+
   bot.on('message:poll', async (ctx) => {
     const message = ctx.message;
     if (!message.poll) return;
@@ -38,12 +49,23 @@ export function registerPollMessageHandler(bot: Bot<MyContext>): void {
     ctx.session.state = 'awaiting_poll_intent';
 
     const optionsText = buildPollOptionsText(pollData);
+    const closedText =
+      pollData.closedAt !== undefined
+        ? `🔒 Closed ${new Date(pollData.closedAt).toLocaleString()}, using final roster.\n\n`
+        : '';
 
     await ctx.reply(
       `📊 Poll: "${pollData.question}"\n\n${optionsText}\n` +
+        closedText +
         `What would you like to do?\n` +
         `1. Update sheet with poll results\n` +
         `2. View voters`,
+      {
+        reply_markup: buildChoiceKeyboard('awaiting_poll_intent', [
+          { label: '📝 Update sheet', value: '1' },
+          { label: '👀 View voters', value: '2' },
+        ]),
+      },
     );
   });
 }
@@ -71,6 +93,16 @@ export async function handlePollIntent(
     await ctx.reply(
       `Which option contains the attending players?\n\n${optionsText}\n` +
         `Reply with the option number (e.g., "1"):`,
+      {
+        reply_markup: buildChoiceKeyboard(
+          'awaiting_poll_option_selection',
+          pollData.options.map((option, index) => ({
+            label: `${index + 1}. ${option}`,
+            value: String(index + 1),
+          })),
+          1,
+        ),
+      },
     );
     return true;
   }
@@ -81,14 +113,9 @@ export async function handlePollIntent(
 
     const { pollData } = result;
 
-    let response = `📊 Poll: "${pollData.question}"\n\n`;
-    pollData.options.forEach((option, index) => {
-      const voters = pollData.votes.get(index) || new Set();
-      const voterList = Array.from(voters).join(' ');
-      response += `${index + 1}. ${option}: ${voterList || '(no votes)'}\n`;
-    });
-
-    await ctx.reply(response);
+    await ctx.reply(
+      `📊 Poll: "${pollData.question}"\n\n${buildPollVotersText(pollData)}`,
+    );
     resetSession(ctx.session);
     return true;
   }
@@ -130,23 +157,32 @@ export async function handlePollOptionSelection(
     return true;
   }
 
-  // Extract usernames from selected option
-  const voters = pollData.votes.get(optionIndex) || new Set();
-  const usernames = Array.from(voters);
+  // Extract voters from selected option (main list only for capped polls)
+  const voters = getConfirmedVoters(pollData, optionIndex);
 
-  if (usernames.length === 0) {
+  if (voters.length === 0) {
     await replyErrorAndReset(ctx, '❌ No voters found for this option.');
     return true;
   }
 
-  // Store usernames and start main workflow
-  ctx.session.usernames = usernames;
+  // Store voter tokens ("@username" or "id:<user id>") and start main workflow
+  ctx.session.usernames = voters.map(getVoterToken);
+  ctx.session.voterNames = voters
+    .filter((voter) => !voter.username)
+    .map((voter) => [getVoterToken(voter), getVoterDisplayName(voter)]);
   ctx.session.pollId = undefined;
   ctx.session.pollQuestion = undefined;
 
+  const waitlist =
+    optionIndex === ATTENDING_OPTION_INDEX
+      ? getPollRoster(pollData).waitlist
+      : [];
   await ctx.reply(
     `✅ Selected option: "${pollData.options[optionIndex]}"\n` +
-      `👥 Attending players: ${usernames.join(' ')}`,
+      `👥 Attending players: ${voters.map(getVoterDisplayName).join(' ')}` +
+      (waitlist.length > 0
+        ? `\n⏳ Waitlist (not included): ${waitlist.map(getVoterDisplayName).join(' ')}`
+        : ''),
   );
 
   // Start column detection flow
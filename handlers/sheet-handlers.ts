@@ -1,15 +1,22 @@
+import { setNicknameAlias } from '../aliases';
+import { getSheetBinding } from '../bindings';
 import { handleApiError, parseYesNo, replyErrorAndReset } from '../bot-helpers';
 import {
   ERR_INVALID_YES_NO,
   ERR_SESSION_DATA_LOST,
   ERR_TARGET_COLUMN_NOT_SET,
+  MSG_USE_UPDATE_AGAIN,
 } from '../constants';
+import { USER_ID_TOKEN_PREFIX } from '../poll';
 import type { MyContext } from '../session';
-import { initSheetsClient } from '../sheets';
+import { resetSession } from '../session';
 import {
   checkOverridesAndWrite,
+  proceedWithMatchedRows,
   proceedWithPlayerCountCheck,
-  writeZerosAndRespond,
+  resolveUnknownNicknames,
+  showWritePreview,
+  writePreviewedCells,
 } from '../workflow';
 
 /**
@@ -64,6 +71,88 @@ export async function handleUsernames(
   return true;
 }
 
+/**
+ * Handle awaiting_nickname_suggestions state
+ */
+export async function handleNicknameSuggestions(
+  ctx: MyContext,
+  text: string,
+): Promise<boolean> {
+  if (ctx.session.state !== 'awaiting_nickname_suggestions') {
+    return false;
+  }
+
+  const answer = parseYesNo(text);
+
+  if (answer === null) {
+    await ctx.reply(ERR_INVALID_YES_NO);
+    return true;
+  }
+
+  if (
+    !ctx.session.targetColumn ||
+    !ctx.session.nicknameRowsEntries ||
+    !ctx.session.nicknameSuggestions
+  ) {
+    await replyErrorAndReset(ctx, ERR_SESSION_DATA_LOST);
+    return true;
+  }
+
+  const nicknameRows = new Map<string, number>(ctx.session.nicknameRowsEntries);
+  if (answer === 'yes') {
+    const { spreadsheetId } = getSheetBinding(ctx);
+    for (const suggestion of ctx.session.nicknameSuggestions) {
+      nicknameRows.set(suggestion.username, suggestion.row);
+      setNicknameAlias(spreadsheetId, suggestion.username, suggestion.nickname);
+    }
+    console.log(
+      `[ALIAS ACCEPTED] ${ctx.session.nicknameSuggestions.map((s) => `${s.username} -> ${s.nickname}`).join(', ')}, Chat ID: ${ctx.chat?.id || 'unknown'}`,
+    );
+  }
+
+  try {
+    await resolveUnknownNicknames(ctx, nicknameRows);
+  } catch (error) {
+    await handleApiError(ctx, error, 'processing usernames');
+  }
+  return true;
+}
+
+/**
+ * Handle awaiting_roster_addition state
+ */
+export async function handleRosterAddition(
+  ctx: MyContext,
+  text: string,
+): Promise<boolean> {
+  if (ctx.session.state !== 'awaiting_roster_addition') {
+    return false;
+  }
+
+  const answer = parseYesNo(text);
+
+  if (answer === null) {
+    await ctx.reply(ERR_INVALID_YES_NO);
+    return true;
+  }
+
+  if (!ctx.session.targetColumn || !ctx.session.nicknameRowsEntries) {
+    await replyErrorAndReset(ctx, ERR_SESSION_DATA_LOST);
+    return true;
+  }
+
+  const nicknameRows = new Map<string, number>(ctx.session.nicknameRowsEntries);
+  ctx.session.newRosterNicknames =
+    answer === 'yes'
+      ? ctx.session.usernames.filter(
+          (u) => !nicknameRows.has(u) && !u.startsWith(USER_ID_TOKEN_PREFIX),
+        )
+      : [];
+
+  await proceedWithMatchedRows(ctx, nicknameRows);
+  return true;
+}
+
 /**
  * Handle awaiting_player_count_confirmation state
  */
@@ -88,29 +177,22 @@ export async function handlePlayerCountConfirmation(
   }
 
   const nicknameRows = new Map<string, number>(ctx.session.nicknameRowsEntries);
-  const recognizedCount = nicknameRows.size;
+  const recognizedCount =
+    nicknameRows.size + (ctx.session.newRosterNicknames?.length ?? 0);
 
   if (answer === 'yes') {
     ctx.session.playerCount = recognizedCount;
 
-    try {
-      const sheetsClient = await initSheetsClient();
-      await sheetsClient.writeColumnMetadata(
-        ctx.session.targetColumn,
-        undefined,
-        undefined,
-        ctx.session.playerCount,
-      );
+    ctx.session.pendingMetadata = {
+      ...ctx.session.pendingMetadata,
+      playerCount: ctx.session.playerCount,
+    };
 
+    try {
       // Check for existing values and handle override
       await checkOverridesAndWrite(ctx, nicknameRows);
     } catch (error) {
-      await handleApiError(
-        ctx,
-        error,
-        'writing player count or checking overrides',
-        false,
-      );
+      await handleApiError(ctx, error, 'checking overrides', false);
     }
   } else {
     ctx.session.state = 'awaiting_player_count';
@@ -138,6 +220,13 @@ export async function handlePlayerCount(
     );
     return true;
   }
+  // Cost shares are split by this count, so nobody attending makes no sense
+  if (count === 0) {
+    await ctx.reply(
+      '❌ The player count must be at least 1. How many players attended the match?',
+    );
+    return true;
+  }
 
   ctx.session.playerCount = count;
 
@@ -146,21 +235,18 @@ export async function handlePlayerCount(
     return true;
   }
 
-  try {
-    const sheetsClient = await initSheetsClient();
-    await sheetsClient.writeColumnMetadata(
-      ctx.session.targetColumn,
-      undefined,
-      undefined,
-      ctx.session.playerCount,
-    );
+  ctx.session.pendingMetadata = {
+    ...ctx.session.pendingMetadata,
+    playerCount: ctx.session.playerCount,
+  };
 
+  try {
     const nicknameRows = new Map<string, number>(
       ctx.session.nicknameRowsEntries,
     );
     await checkOverridesAndWrite(ctx, nicknameRows);
   } catch (error) {
-    await handleApiError(ctx, error, 'writing player count', false);
+    await handleApiError(ctx, error, 'checking overrides', false);
   }
 
   return true;
@@ -194,21 +280,44 @@ export async function handleOverrideConfirmation(
   }
 
   const nicknameRows = new Map<string, number>(ctx.session.nicknameRowsEntries);
-  const overrideExisting = answer === 'yes';
-
-  const skippedNicknames: string[] =
-    !overrideExisting && ctx.session.existingValuesEntries
-      ? ctx.session.existingValuesEntries.map((ev) => ev.nickname)
-      : [];
 
   try {
-    await writeZerosAndRespond(
-      ctx,
-      nicknameRows,
-      columnToUse,
-      overrideExisting,
-      skippedNicknames,
+    await showWritePreview(ctx, nicknameRows, columnToUse, answer === 'yes');
+  } catch (error) {
+    await handleApiError(ctx, error, 'preparing preview');
+  }
+
+  return true;
+}
+
+/**
+ * Handle awaiting_write_confirmation state
+ */
+export async function handleWriteConfirmation(
+  ctx: MyContext,
+  text: string,
+): Promise<boolean> {
+  if (ctx.session.state !== 'awaiting_write_confirmation') {
+    return false;
+  }
+
+  const answer = parseYesNo(text);
+
+  if (answer === null) {
+    await ctx.reply(ERR_INVALID_YES_NO);
+    return true;
+  }
+
+  if (answer === 'no') {
+    resetSession(ctx.session);
+    await ctx.reply(
+      `✅ Operation cancelled. Nothing was written. ${MSG_USE_UPDATE_AGAIN}`,
     );
+    return true;
+  }
+
+  try {
+    await writePreviewedCells(ctx);
   } catch (error) {
     await handleApiError(ctx, error, 'updating sheet');
   }
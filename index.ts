@@ -1,11 +1,35 @@
 import { Bot, session } from 'grammy';
+import { registerAliasCommand } from './aliases';
+import {
+  registerBalanceCommand,
+  registerDebtsCommand,
+  registerPaidCommand,
+} from './balance';
+import { registerBindCommand } from './bindings';
 import { registerCommands } from './commands';
-import { registerMessageHandlers } from './handlers';
-import { registerPollAnswerHandler, registerPollCommand } from './poll';
-import type { MyContext, SessionData } from './session';
+import {
+  registerMessageHandlers,
+  registerSessionActivityTracker,
+} from './handlers';
+import { loadSheetLayout, registerLayoutCommand } from './layout';
+import {
+  registerClosePollCommand,
+  registerPollAnswerHandler,
+  registerPollCommand,
+} from './poll';
+import { registerPollHistoryCommand } from './poll-history';
+import { registerScheduleCommand, startPollScheduler } from './schedule';
+import { registerNewSeasonCommand } from './seasons';
+import { createInitialSessionData, type MyContext } from './session';
+import { createSessionStorage } from './session-storage';
+import { registerUndoCommand } from './undo';
+import { registerLinkIdCommand } from './user-links';
 
 // Bun automatically loads .env files, so no additional setup needed
 
+// Load and validate sheet layout before anything touches the sheet
+loadSheetLayout();
+
 // Initialize bot
 const BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN;
 if (!BOT_TOKEN) {
@@ -14,30 +38,30 @@ if (!BOT_TOKEN) {
 
 const bot = new Bot<MyContext>(BOT_TOKEN);
 
-// Session middleware
+// Session middleware (persisted to disk so unfinished flows survive restarts)
 bot.use(
   session({
-    initial: (): SessionData => ({
-      state: 'idle',
-      usernames: [],
-      detectedColumn: undefined,
-      targetColumn: undefined,
-      isNewColumn: undefined,
-      dateName: undefined,
-      cost: undefined,
-      playerCount: undefined,
-      column: undefined,
-      nicknameRowsEntries: undefined,
-      existingValuesEntries: undefined,
-      pollId: undefined,
-      pollQuestion: undefined,
-    }),
+    initial: createInitialSessionData,
+    storage: createSessionStorage(),
   }),
 );
+registerSessionActivityTracker(bot);
 
 // Register all handlers
 registerCommands(bot);
 registerPollCommand(bot);
+registerClosePollCommand(bot);
+registerPollHistoryCommand(bot);
+registerScheduleCommand(bot);
+registerLinkIdCommand(bot);
+registerAliasCommand(bot);
+registerBalanceCommand(bot);
+registerDebtsCommand(bot);
+registerPaidCommand(bot);
+registerLayoutCommand(bot);
+registerBindCommand(bot);
+registerNewSeasonCommand(bot);
+registerUndoCommand(bot);
 registerPollAnswerHandler(bot);
 registerMessageHandlers(bot);
 
@@ -51,6 +75,9 @@ bot.catch((err) => {
   }
 });
 
+// Start recurring poll scheduler
+startPollScheduler(bot);
+
 // Start bot
 console.log('🤖 Bot starting...');
 bot
@@ -0,0 +1,206 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { Bot } from 'grammy';
+import { isChatAdmin } from './bot-helpers';
+import type { MyContext } from './session';
+
+/**
+ * Spreadsheet layout: where the roster, date columns and metadata rows live
+ */
+export interface SheetLayout {
+  sheetName: string;
+  dataFirstRow: number; // First player row
+  dataFirstColumn: string; // First date column
+  nicknameColumn: string; // Column with Telegram nicknames
+  userIdColumn: string; // Optional column with Telegram user ids ('' = none)
+  dateRow: number; // Row with column dates
+  costRow: number; // Row with field cost
+  playerCountRow: number; // Row with player count
+  balanceColumnPattern: string; // Regex (case-insensitive) for balance column headers
+  paymentsSheetName: string; // Tab where /paid appends payment entries
+  paymentColumn: string; // If set, /paid adds the amount to this column instead ('' = none)
+}
+
+const DEFAULT_LAYOUT: SheetLayout = {
+  sheetName: 'Sheet1',
+  dataFirstRow: 7,
+  dataFirstColumn: 'F',
+  nicknameColumn: 'B',
+  userIdColumn: '',
+  dateRow: 1,
+  costRow: 2,
+  playerCountRow: 3,
+  balanceColumnPattern: '^баланс\\s+',
+  paymentsSheetName: 'Payments',
+  paymentColumn: '',
+};
+
+// Layout file (JSON), missing file means defaults + env overrides
+const SHEET_LAYOUT_PATH =
+  process.env.SHEET_LAYOUT_PATH || join(process.cwd(), 'sheet-layout.json');
+
+// Layout field -> env variable that overrides it
+const ENV_OVERRIDES: Record<keyof SheetLayout, string> = {
+  sheetName: 'SHEET_NAME',
+  dataFirstRow: 'SHEET_DATA_FIRST_ROW',
+  dataFirstColumn: 'SHEET_DATA_FIRST_COLUMN',
+  nicknameColumn: 'SHEET_NICKNAME_COLUMN',
+  userIdColumn: 'SHEET_USER_ID_COLUMN',
+  dateRow: 'SHEET_DATE_ROW',
+  costRow: 'SHEET_COST_ROW',
+  playerCountRow: 'SHEET_PLAYER_COUNT_ROW',
+  balanceColumnPattern: 'SHEET_BALANCE_COLUMN_PATTERN',
+  paymentsSheetName: 'SHEET_PAYMENTS_NAME',
+  paymentColumn: 'SHEET_PAYMENT_COLUMN',
+};
+
+const COLUMN_PATTERN = /^[A-Z]{1,3}$/;
+
+let currentLayout: SheetLayout | null = null;
+
+// Fields set in the layout file or env (the rest are defaults)
+const configuredFields = new Set<keyof SheetLayout>();
+
+/**
+ * Check layout values, returning a list of problems (empty if valid)
+ */
+function validateLayout(layout: SheetLayout): string[] {
+  const problems: string[] = [];
+
+  const rowFields = [
+    'dataFirstRow',
+    'dateRow',
+    'costRow',
+    'playerCountRow',
+  ] as const;
+  for (const field of rowFields) {
+    if (!Number.isInteger(layout[field]) || layout[field] < 1) {
+      problems.push(`${field} must be a positive integer`);
+    }
+  }
+  for (const field of ['dateRow', 'costRow', 'playerCountRow'] as const) {
+    if (layout[field] >= layout.dataFirstRow) {
+      problems.push(`${field} must be above dataFirstRow`);
+    }
+  }
+  if (
+    new Set([layout.dateRow, layout.costRow, layout.playerCountRow]).size !== 3
+  ) {
+    problems.push('dateRow, costRow and playerCountRow must be different');
+  }
+
+  for (const field of ['dataFirstColumn', 'nicknameColumn'] as const) {
+    if (!COLUMN_PATTERN.test(layout[field])) {
+      problems.push(`${field} must be a column letter (A-ZZZ)`);
+    }
+  }
+  for (const field of ['userIdColumn', 'paymentColumn'] as const) {
+    if (layout[field] !== '' && !COLUMN_PATTERN.test(layout[field])) {
+      problems.push(`${field} must be a column letter (A-ZZZ) or empty`);
+    }
+  }
+
+  if (!layout.sheetName.trim()) {
+    problems.push('sheetName must not be empty');
+  }
+  if (!layout.paymentsSheetName.trim()) {
+    problems.push('paymentsSheetName must not be empty');
+  }
+
+  try {
+    new RegExp(layout.balanceColumnPattern, 'i');
+  } catch {
+    problems.push('balanceColumnPattern must be a valid regular expression');
+  }
+
+  return problems;
+}
+
+/**
+ * Load layout from the layout file and env overrides, failing fast on invalid values
+ * Called once at startup, later calls return the loaded layout
+ */
+export function loadSheetLayout(): SheetLayout {
+  if (currentLayout) return currentLayout;
+
+  let fileLayout: Partial<SheetLayout> = {};
+  if (existsSync(SHEET_LAYOUT_PATH)) {
+    try {
+      fileLayout = JSON.parse(readFileSync(SHEET_LAYOUT_PATH, 'utf8'));
+    } catch (error) {
+      throw new Error(
+        `Invalid sheet layout file ${SHEET_LAYOUT_PATH}: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+
+  const layout: SheetLayout = { ...DEFAULT_LAYOUT };
+  for (const field of Object.keys(DEFAULT_LAYOUT) as Array<keyof SheetLayout>) {
+    const value = process.env[ENV_OVERRIDES[field]] ?? fileLayout[field];
+    if (value === undefined) continue;
+    configuredFields.add(field);
+
+    if (typeof DEFAULT_LAYOUT[field] === 'number') {
+      (layout[field] as number) = Number(value);
+    } else if (field.endsWith('Column')) {
+      (layout[field] as string) = String(value).trim().toUpperCase();
+    } else {
+      (layout[field] as string) = String(value);
+    }
+  }
+
+  const problems = validateLayout(layout);
+  if (problems.length > 0) {
+    throw new Error(`Invalid sheet layout:\n- ${problems.join('\n- ')}`);
+  }
+
+  currentLayout = layout;
+  return layout;
+}
+
+/**
+ * Get the loaded sheet layout
+ */
+export function getSheetLayout(): SheetLayout {
+  return loadSheetLayout();
+}
+
+/**
+ * Check if a layout field was set in the layout file or env (not a default)
+ */
+export function isLayoutFieldConfigured(field: keyof SheetLayout): boolean {
+  loadSheetLayout();
+  return configuredFields.has(field);
+}
+
+/**
+ * Build balance column header regex from the layout
+ */
+export function getBalanceColumnRegex(layout: SheetLayout): RegExp {
+  return new RegExp(layout.balanceColumnPattern, 'i');
+}
+
+/**
+ * Register /layout command handler
+ */
+export function registerLayoutCommand(bot: Bot<MyContext>): void {
+  /**
+   * Layout command handler - show the active sheet layout (admins only)
+   */
+  bot.command('layout', async (ctx) => {
+    if (!(await isChatAdmin(ctx))) {
+      await ctx.reply('❌ Only chat admins can view the sheet layout.');
+      return;
+    }
+
+    const layout = getSheetLayout();
+    let message = '📐 Sheet layout:\n\n';
+    for (const field of Object.keys(layout) as Array<keyof SheetLayout>) {
+      const value = layout[field] === '' ? '(not set)' : layout[field];
+      message += `• ${field}: ${value} (${ENV_OVERRIDES[field]})\n`;
+    }
+    message += `\nFile: ${existsSync(SHEET_LAYOUT_PATH) ? SHEET_LAYOUT_PATH : `${SHEET_LAYOUT_PATH} (not found, using defaults)`}`;
+
+    await ctx.reply(message);
+  });
+}
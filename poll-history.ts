@@ -0,0 +1,182 @@
+import type { Bot } from 'grammy';
+import {
+  ATTENDING_OPTION_INDEX,
+  findLatestPoll,
+  getVoterDisplayName,
+  type PollData,
+} from './poll';
+import { activePolls, savePollStore } from './poll-store';
+import type { MyContext } from './session';
+
+// Cancellations made less than this many hours before the game are "late"
+const LATE_CANCELLATION_HOURS = Number(
+  process.env.LATE_CANCELLATION_HOURS || 24,
+);
+
+/**
+ * Attending voter who switched away from the attending option
+ */
+interface Cancellation {
+  voterName: string;
+  newOptions: string;
+  at: number;
+  late: boolean;
+}
+
+/**
+ * Format timestamp as "DD.MM HH:MM"
+ */
+function formatDateTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(date.getDate())}.${pad(date.getMonth() + 1)} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Parse game time "DD.MM HH:MM" or "DD.MM.YYYY HH:MM" (server timezone)
+ * @returns timestamp (ms) or null if not recognized
+ */
+function parseGameTime(text: string): number | null {
+  const match = /^(\d{1,2})\.(\d{1,2})(?:\.(\d{4}))?\s+(\d{1,2}):(\d{2})$/.exec(
+    text,
+  );
+  if (!match) return null;
+
+  const year = match[3] ? parseInt(match[3], 10) : new Date().getFullYear();
+  const date = new Date(
+    year,
+    parseInt(match[2], 10) - 1,
+    parseInt(match[1], 10),
+    parseInt(match[4], 10),
+    parseInt(match[5], 10),
+  );
+  return Number.isNaN(date.getTime()) ? null : date.getTime();
+}
+
+/**
+ * Find voters who switched from the attending option to something else
+ */
+function findCancellations(pollData: PollData): Cancellation[] {
+  const lateWindowMs = LATE_CANCELLATION_HOURS * 60 * 60 * 1000;
+  const previousOptions = new Map<number, number[]>();
+  const cancellations: Cancellation[] = [];
+
+  for (const event of pollData.history ?? []) {
+    const previous = previousOptions.get(event.userId) ?? [];
+    previousOptions.set(event.userId, event.optionIds);
+
+    const wasAttending = previous.includes(ATTENDING_OPTION_INDEX);
+    const isAttending = event.optionIds.includes(ATTENDING_OPTION_INDEX);
+    if (!wasAttending || isAttending) continue;
+
+    const voter = pollData.voters.get(event.userId);
+    cancellations.push({
+      voterName: voter ? getVoterDisplayName(voter) : `id ${event.userId}`,
+      newOptions:
+        event.optionIds.length > 0
+          ? event.optionIds.map((id) => pollData.options[id]).join(', ')
+          : '(vote retracted)',
+      at: event.at,
+      late:
+        pollData.gameAt !== undefined &&
+        event.at <= pollData.gameAt &&
+        pollData.gameAt - event.at < lateWindowMs,
+    });
+  }
+
+  return cancellations;
+}
+
+/**
+ * Build /pollhistory report
+ */
+function buildPollHistoryText(pollData: PollData): string {
+  const attendingOption = pollData.options[ATTENDING_OPTION_INDEX];
+  let text = `📜 Vote history: "${pollData.question}"\n`;
+
+  if (pollData.gameAt !== undefined) {
+    text += `⚽ Game: ${formatDateTime(pollData.gameAt)} (late window ${LATE_CANCELLATION_HOURS}h)\n`;
+  }
+
+  const cancellations = findCancellations(pollData);
+  if (cancellations.length === 0) {
+    text += `\nNobody switched away from "${attendingOption}".\n`;
+  } else {
+    text += `\n🔁 Switched away from "${attendingOption}":\n`;
+    for (const c of cancellations) {
+      text += `• ${c.voterName}: ${attendingOption} → ${c.newOptions} at ${formatDateTime(c.at)}`;
+      if (c.late && pollData.gameAt !== undefined) {
+        const hoursBefore = (pollData.gameAt - c.at) / (60 * 60 * 1000);
+        text += ` ⚠️ LATE (${hoursBefore.toFixed(1)}h before game)`;
+      }
+      text += '\n';
+    }
+  }
+
+  const lateCount = cancellations.filter((c) => c.late).length;
+  if (lateCount > 0) {
+    text += `\n⚠️ Late cancellations: ${lateCount}`;
+  }
+  text += `\nTotal vote events: ${pollData.history?.length ?? 0}`;
+
+  if (pollData.gameAt === undefined) {
+    text +=
+      '\n\n💡 Set the game time to flag late cancellations: /pollhistory DD.MM HH:MM';
+  }
+
+  return text;
+}
+
+/**
+ * Register /pollhistory command handler
+ */
+export function registerPollHistoryCommand(bot: Bot<MyContext>): void {
+  /**
+   * Poll history command handler - show vote switches and late cancellations
+   * Reply to a poll to pick it, otherwise the latest poll in the chat is used
+   * Optional argument sets the game time: /pollhistory 13.12 10:00
+   */
+  bot.command('pollhistory', async (ctx) => {
+    const repliedPoll = ctx.message?.reply_to_message?.poll;
+
+    let target: { pollId: string; pollData: PollData } | null = null;
+    if (repliedPoll) {
+      const pollData = activePolls.get(repliedPoll.id);
+      if (!pollData) {
+        await ctx.reply(
+          'ℹ️ This poll was not created by me. I can only track polls created with /poll command.',
+        );
+        return;
+      }
+      target = { pollId: repliedPoll.id, pollData };
+    } else {
+      target = findLatestPoll(ctx.chat.id);
+    }
+
+    if (!target) {
+      await ctx.reply(
+        'ℹ️ No polls found in this chat. Reply to a poll with /pollhistory to see its history.',
+      );
+      return;
+    }
+
+    const { pollId, pollData } = target;
+    const gameTimeText = ctx.match.trim();
+    if (gameTimeText) {
+      const gameAt = parseGameTime(gameTimeText);
+      if (gameAt === null) {
+        await ctx.reply(
+          '❌ Invalid game time. Use DD.MM HH:MM, e.g. /pollhistory 13.12 10:00',
+        );
+        return;
+      }
+      pollData.gameAt = gameAt;
+      savePollStore();
+      console.log(
+        `[POLL GAME TIME] Poll ID: ${pollId}, Game: ${new Date(gameAt).toISOString()}, User: @${ctx.from?.username || 'unknown'}`,
+      );
+    }
+
+    await ctx.reply(buildPollHistoryText(pollData));
+  });
+}
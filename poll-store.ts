@@ -0,0 +1,183 @@
+import type { PollData, PollVoteEvent, PollVoter } from './poll';
+import { dataFilePath, readJsonFile, writeJsonFile } from './storage';
+
+const POLL_STORE_PATH =
+  process.env.POLL_STORE_PATH || dataFilePath('polls.json');
+
+// Polls closed (or, if still open, created) longer ago than this are dropped on save
+const POLL_RETENTION_WEEKS = Number(process.env.POLL_RETENTION_WEEKS || 8);
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Voter stored by user id, or by "@username" in polls saved before user ids were tracked
+type StoredVoterRef = number | string;
+
+/**
+ * Serialized poll record (Maps and Sets converted to arrays)
+ */
+interface StoredPoll {
+  question: string;
+  options: string[];
+  chatId: number;
+  messageId: number;
+  createdAt?: number;
+  votes: Array<[number, StoredVoterRef[]]>;
+  voters?: PollVoter[];
+  closedAt?: number;
+  closedVotes?: Array<[number, StoredVoterRef[]]>;
+  capacity?: number;
+  voteOrder?: StoredVoterRef[];
+  rosterMessageId?: number;
+  history?: PollVoteEvent[];
+  gameAt?: number;
+}
+
+/**
+ * Convert votes Map to JSON-friendly entries
+ */
+function serializeVotes(
+  votes: Map<number, Set<number>>,
+): Array<[number, number[]]> {
+  return Array.from(votes.entries()).map(([optionId, voters]) => [
+    optionId,
+    Array.from(voters),
+  ]);
+}
+
+/**
+ * Create resolver for stored voter refs
+ * Legacy "@username" refs get a stable negative placeholder id per poll
+ */
+function createVoterResolver(
+  voters: Map<number, PollVoter>,
+): (ref: StoredVoterRef) => number {
+  const legacyIds = new Map<string, number>();
+  return (ref) => {
+    if (typeof ref === 'number') return ref;
+
+    let id = legacyIds.get(ref);
+    if (id === undefined) {
+      id = -(legacyIds.size + 1);
+      legacyIds.set(ref, id);
+      voters.set(id, {
+        id,
+        username: ref.replace(/^@/, ''),
+        firstName: ref,
+      });
+    }
+    return id;
+  };
+}
+
+/**
+ * Convert stored vote entries back to a votes Map
+ */
+function deserializeVotes(
+  entries: Array<[number, StoredVoterRef[]]>,
+  resolveVoter: (ref: StoredVoterRef) => number,
+): Map<number, Set<number>> {
+  return new Map(
+    entries.map(([optionId, refs]) => [
+      optionId,
+      new Set(refs.map(resolveVoter)),
+    ]),
+  );
+}
+
+// Tracked polls (keyed by poll ID), backed by POLL_STORE_PATH
+export const activePolls = new Map<string, PollData>();
+
+let loaded = false;
+
+/**
+ * Load tracked polls from disk (only once per process)
+ */
+export function loadPollStore(): void {
+  if (loaded) return;
+  loaded = true;
+
+  const stored = readJsonFile<Record<string, StoredPoll>>(POLL_STORE_PATH, {});
+  for (const [pollId, poll] of Object.entries(stored)) {
+    const voters = new Map<number, PollVoter>(
+      (poll.voters ?? []).map((voter) => [voter.id, voter]),
+    );
+    const resolveVoter = createVoterResolver(voters);
+
+    activePolls.set(pollId, {
+      question: poll.question,
+      options: poll.options,
+      chatId: poll.chatId,
+      messageId: poll.messageId,
+      // Polls saved before creation time was tracked are kept for a full retention period
+      createdAt: poll.createdAt ?? Date.now(),
+      votes: deserializeVotes(poll.votes, resolveVoter),
+      voters,
+      closedAt: poll.closedAt,
+      closedVotes: poll.closedVotes
+        ? deserializeVotes(poll.closedVotes, resolveVoter)
+        : undefined,
+      capacity: poll.capacity,
+      voteOrder: poll.voteOrder?.map(resolveVoter),
+      rosterMessageId: poll.rosterMessageId,
+      history: poll.history,
+      gameAt: poll.gameAt,
+    });
+  }
+
+  console.log(
+    `[POLL STORE] Loaded ${activePolls.size} poll(s) from ${POLL_STORE_PATH}`,
+  );
+}
+
+/**
+ * Drop polls closed (or, if still open, created) more than POLL_RETENTION_WEEKS ago
+ */
+function pruneOldPolls(): void {
+  const cutoff = Date.now() - POLL_RETENTION_WEEKS * WEEK_MS;
+  let pruned = 0;
+  activePolls.forEach((poll, pollId) => {
+    if ((poll.closedAt ?? poll.createdAt) < cutoff) {
+      activePolls.delete(pollId);
+      pruned++;
+    }
+  });
+  if (pruned > 0) {
+    console.log(
+      `[POLL STORE] Dropped ${pruned} poll(s) older than ${POLL_RETENTION_WEEKS} week(s)`,
+    );
+  }
+}
+
+/**
+ * Persist all tracked polls to disk (old polls are dropped first)
+ */
+export function savePollStore(): void {
+  pruneOldPolls();
+
+  const stored: Record<string, StoredPoll> = {};
+  activePolls.forEach((poll, pollId) => {
+    stored[pollId] = {
+      question: poll.question,
+      options: poll.options,
+      chatId: poll.chatId,
+      messageId: poll.messageId,
+      createdAt: poll.createdAt,
+      votes: serializeVotes(poll.votes),
+      voters: Array.from(poll.voters.values()),
+      closedAt: poll.closedAt,
+      closedVotes: poll.closedVotes
+        ? serializeVotes(poll.closedVotes)
+        : undefined,
+      capacity: poll.capacity,
+      voteOrder: poll.voteOrder,
+      rosterMessageId: poll.rosterMessageId,
+      history: poll.history,
+      gameAt: poll.gameAt,
+    };
+  });
+
+  try {
+    writeJsonFile(POLL_STORE_PATH, stored);
+  } catch (error) {
+    console.error('[POLL STORE] Failed to save polls:', error);
+  }
+}
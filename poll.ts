@@ -1,5 +1,18 @@
-import type { Bot } from 'grammy';
+import type { Api, Bot } from 'grammy';
+import { activePolls, loadPollStore, savePollStore } from './poll-store';
+import { scheduleRosterUpdate } from './roster';
 import type { MyContext } from './session';
+import { linkUser } from './user-links';
+
+/**
+ * Telegram user who voted in a tracked poll
+ */
+export interface PollVoter {
+  id: number;
+  username?: string; // Without @, missing for users who have no username
+  firstName: string;
+  lastName?: string;
+}
 
 /**
  * Poll data storage for tracking votes
@@ -7,11 +20,271 @@ import type { MyContext } from './session';
 export interface PollData {
   question: string;
   options: string[];
-  votes: Map<number, Set<string>>; // optionIndex -> Set of @usernames
+  chatId: number;
+  messageId: number;
+  createdAt: number; // Timestamp (ms) when the poll was posted
+  votes: Map<number, Set<number>>; // optionIndex -> Set of Telegram user ids
+  voters: Map<number, PollVoter>; // Telegram user id -> voter info
+  closedAt?: number; // Timestamp (ms) when the poll was closed with /closepoll
+  closedVotes?: Map<number, Set<number>>; // Frozen roster at close time
+  capacity?: number; // Max players in the main list (first option), rest go to waitlist
+  voteOrder?: number[]; // Voters of the first option in the order they voted
+  rosterMessageId?: number; // Live roster message posted under the poll
+  history?: PollVoteEvent[]; // Every vote change in the order received
+  gameAt?: number; // Game start timestamp (ms), set with /pollhistory
+}
+
+/**
+ * Single poll_answer event (empty optionIds means the vote was retracted)
+ */
+export interface PollVoteEvent {
+  userId: number;
+  optionIds: number[];
+  at: number;
+}
+
+// Prefix of voter tokens for users without a username, e.g. "id:123456"
+export const USER_ID_TOKEN_PREFIX = 'id:';
+
+// Option that counts as "attending" for capacity/waitlist (first option)
+export const ATTENDING_OPTION_INDEX = 0;
+
+/**
+ * Get votes to use for a poll: frozen snapshot if closed, live votes otherwise
+ */
+export function getPollVotes(pollData: PollData): Map<number, Set<number>> {
+  return pollData.closedVotes ?? pollData.votes;
 }
 
-// In-memory storage for active polls (keyed by poll ID)
-export const activePolls = new Map<string, PollData>();
+/**
+ * Get token used to match a voter in the sheet: "@username" or "id:<user id>"
+ */
+export function getVoterToken(voter: PollVoter): string {
+  return voter.username
+    ? `@${voter.username}`
+    : `${USER_ID_TOKEN_PREFIX}${voter.id}`;
+}
+
+/**
+ * Get human readable voter name: "@username" or "First Last"
+ */
+export function getVoterDisplayName(voter: PollVoter): string {
+  if (voter.username) {
+    return `@${voter.username}`;
+  }
+  return [voter.firstName, voter.lastName].filter(Boolean).join(' ');
+}
+
+/**
+ * Resolve voter ids to voter info (unknown ids are skipped)
+ */
+function getVoters(pollData: PollData, userIds: Iterable<number>): PollVoter[] {
+  const voters: PollVoter[] = [];
+  for (const userId of userIds) {
+    const voter = pollData.voters.get(userId);
+    if (voter) {
+      voters.push(voter);
+    }
+  }
+  return voters;
+}
+
+/**
+ * Split attending voters into main list and waitlist by vote order
+ * Without capacity everybody is in the main list
+ */
+export function getPollRoster(pollData: PollData): {
+  main: PollVoter[];
+  waitlist: PollVoter[];
+} {
+  const attending =
+    getPollVotes(pollData).get(ATTENDING_OPTION_INDEX) || new Set<number>();
+
+  if (pollData.capacity === undefined) {
+    return { main: getVoters(pollData, attending), waitlist: [] };
+  }
+
+  const ordered = getVoters(
+    pollData,
+    (pollData.voteOrder ?? []).filter((id) => attending.has(id)),
+  );
+  return {
+    main: ordered.slice(0, pollData.capacity),
+    waitlist: ordered.slice(pollData.capacity),
+  };
+}
+
+/**
+ * Get voters to use for a poll option (main list only for the attending option)
+ */
+export function getConfirmedVoters(
+  pollData: PollData,
+  optionIndex: number,
+): PollVoter[] {
+  if (optionIndex === ATTENDING_OPTION_INDEX) {
+    return getPollRoster(pollData).main;
+  }
+  return getVoters(
+    pollData,
+    getPollVotes(pollData).get(optionIndex) || new Set(),
+  );
+}
+
+/**
+ * Join voter display names with spaces
+ */
+function formatVoters(voters: PollVoter[]): string {
+  return voters.map(getVoterDisplayName).join(' ');
+}
+
+/**
+ * Build per-option voter list text (main list and waitlist for capped polls)
+ */
+export function buildPollVotersText(pollData: PollData): string {
+  const votes = getPollVotes(pollData);
+  const roster = getPollRoster(pollData);
+  let text = '';
+
+  pollData.options.forEach((option, index) => {
+    if (index === ATTENDING_OPTION_INDEX && pollData.capacity !== undefined) {
+      text += `${index + 1}. ${option} (${roster.main.length}/${pollData.capacity}): ${formatVoters(roster.main) || '(no votes)'}\n`;
+      if (roster.waitlist.length > 0) {
+        text += `   ⏳ Waitlist: ${formatVoters(roster.waitlist)}\n`;
+      }
+      return;
+    }
+    const voters = getVoters(pollData, votes.get(index) || new Set());
+    text += `${index + 1}. ${option} (${voters.length}): ${formatVoters(voters) || '(no votes)'}\n`;
+  });
+
+  return text;
+}
+
+/**
+ * Keep vote order of the attending option in sync after a vote change
+ * @returns voter promoted from the waitlist to the main list, if any
+ */
+function updateVoteOrder(pollData: PollData, voter: number): number | null {
+  if (pollData.capacity === undefined) {
+    return null;
+  }
+
+  const order = pollData.voteOrder ?? [];
+  pollData.voteOrder = order;
+
+  const attending =
+    pollData.votes.get(ATTENDING_OPTION_INDEX)?.has(voter) ?? false;
+  const position = order.indexOf(voter);
+
+  if (attending && position === -1) {
+    order.push(voter);
+    return null;
+  }
+
+  if (!attending && position !== -1) {
+    order.splice(position, 1);
+    // Someone from the main list left: first waitlisted voter moves up
+    if (position < pollData.capacity && order.length >= pollData.capacity) {
+      return order[pollData.capacity - 1];
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find the most recent poll created in a chat
+ * @param openOnly - skip polls closed with /closepoll
+ */
+export function findLatestPoll(
+  chatId: number,
+  openOnly: boolean = false,
+): { pollId: string; pollData: PollData } | null {
+  let latest: { pollId: string; pollData: PollData } | null = null;
+  for (const [pollId, pollData] of activePolls) {
+    if (pollData.chatId !== chatId) {
+      continue;
+    }
+    if (openOnly && pollData.closedAt !== undefined) {
+      continue;
+    }
+    if (!latest || pollData.messageId > latest.pollData.messageId) {
+      latest = { pollId, pollData };
+    }
+  }
+  return latest;
+}
+
+/**
+ * Split poll definition into question and options
+ * Separators: |, ; or newlines
+ * Optional leading "max=N" sets player capacity for the first option
+ * @returns null if there is no question or no options
+ */
+export function parsePollDefinition(
+  content: string,
+): { question: string; options: string[]; capacity?: number } | null {
+  let capacity: number | undefined;
+  const capacityMatch = /^max=(\d+)\s+/i.exec(content);
+  if (capacityMatch) {
+    capacity = parseInt(capacityMatch[1], 10);
+    if (capacity < 1) {
+      return null;
+    }
+    content = content.slice(capacityMatch[0].length);
+  }
+
+  const parts = content
+    .split(/[|;\n]+/)
+    .map((p) => p.trim())
+    .filter((p) => p.length > 0);
+
+  if (parts.length < 2) {
+    return null;
+  }
+
+  return { question: parts[0], options: parts.slice(1), capacity };
+}
+
+/**
+ * Send a non-anonymous poll and register it in the poll store
+ * Shared by /poll command and scheduled polls
+ * @returns poll ID, or undefined if Telegram returned no poll
+ */
+export async function createTrackedPoll(
+  api: Api,
+  chatId: number,
+  question: string,
+  options: string[],
+  createdBy: string,
+  capacity?: number,
+): Promise<string | undefined> {
+  const pollMessage = await api.sendPoll(chatId, question, options, {
+    is_anonymous: false,
+  });
+
+  const pollId = pollMessage.poll?.id;
+  if (pollId) {
+    activePolls.set(pollId, {
+      question,
+      options,
+      chatId,
+      messageId: pollMessage.message_id,
+      createdAt: Date.now(),
+      votes: new Map(),
+      voters: new Map(),
+      history: [],
+      capacity,
+      voteOrder: capacity !== undefined ? [] : undefined,
+    });
+    savePollStore();
+    console.log(
+      `[POLL CREATED] Poll ID: ${pollId}, Question: "${question}", Options: ${options.join(', ')}, Capacity: ${capacity ?? 'none'}, Chat ID: ${chatId}, User: ${createdBy}`,
+    );
+  }
+
+  return pollId;
+}
 
 /**
  * Register poll command handler
@@ -25,7 +298,7 @@ export function registerPollCommand(bot: Bot<MyContext>): void {
     if (!text) {
       await ctx.reply(
         '❌ Please provide poll question and options.\n\n' +
-          'Usage: /poll Question? | Option1 | Option2 | Option3\n' +
+          'Usage: /poll [max=14] Question? | Option1 | Option2 | Option3\n' +
           'Separators: | or ; or newlines',
       );
       return;
@@ -33,54 +306,31 @@ export function registerPollCommand(bot: Bot<MyContext>): void {
 
     // Extract question and options (remove /poll command)
     const content = text.replace(/^\/poll\s+/i, '').trim();
+    const definition = parsePollDefinition(content);
 
-    // Split by |, ;, or newlines
-    const parts = content
-      .split(/[|;\n]+/)
-      .map((p) => p.trim())
-      .filter((p) => p.length > 0);
-
-    if (parts.length < 2) {
+    if (!definition) {
       await ctx.reply(
         '❌ Please provide at least a question and one option.\n\n' +
-          'Usage: /poll Question? | Option1 | Option2\n' +
-          'Separators: | or ; or newlines',
+          'Usage: /poll [max=14] Question? | Option1 | Option2\n' +
+          'Separators: | or ; or newlines\n' +
+          'max=N limits the first option to N players, the rest go to a waitlist',
       );
       return;
     }
 
-    const question = parts[0];
-    const options = parts.slice(1);
-
-    if (options.length < 1) {
-      await ctx.reply('❌ Please provide at least one option.');
-      return;
-    }
+    const { question, options, capacity } = definition;
 
     try {
       // Create non-anonymous poll
-      const pollMessage = await ctx.api.sendPoll(
+      await createTrackedPoll(
+        ctx.api,
         ctx.chat.id,
         question,
         options,
-        {
-          is_anonymous: false,
-        },
+        `@${ctx.from?.username || 'unknown'}`,
+        capacity,
       );
 
-      // Store poll data
-      const pollId = pollMessage.poll?.id;
-      if (pollId) {
-        activePolls.set(pollId, {
-          question,
-          options,
-          votes: new Map(),
-        });
-        console.log(
-          `[POLL CREATED] Poll ID: ${pollId}, Question: "${question}", Options: ${options.join(', ')}, Chat ID: ${ctx.chat.id}, User: @${ctx.from?.username || 'unknown'}`,
-        );
-      }
-
       // In groups, delete the command message to keep chat clean
       const isGroup =
         ctx.chat.type === 'group' || ctx.chat.type === 'supergroup';
@@ -105,10 +355,84 @@ export function registerPollCommand(bot: Bot<MyContext>): void {
   });
 }
 
+/**
+ * Register /closepoll command handler
+ */
+export function registerClosePollCommand(bot: Bot<MyContext>): void {
+  /**
+   * Close poll command handler - stop the poll and freeze the roster
+   * Reply to a poll to close it, otherwise the latest open poll in the chat is closed
+   */
+  bot.command('closepoll', async (ctx) => {
+    const repliedPoll = ctx.message?.reply_to_message?.poll;
+
+    let target: { pollId: string; pollData: PollData } | null = null;
+    if (repliedPoll) {
+      const pollData = activePolls.get(repliedPoll.id);
+      if (!pollData) {
+        await ctx.reply(
+          'ℹ️ This poll was not created by me. I can only close polls created with /poll command.',
+        );
+        return;
+      }
+      target = { pollId: repliedPoll.id, pollData };
+    } else {
+      target = findLatestPoll(ctx.chat.id, true);
+    }
+
+    if (!target) {
+      await ctx.reply(
+        'ℹ️ No open polls found in this chat. Reply to a poll with /closepoll to close it.',
+      );
+      return;
+    }
+
+    const { pollId, pollData } = target;
+    if (pollData.closedAt !== undefined) {
+      await ctx.reply(
+        `ℹ️ Poll "${pollData.question}" is already closed (${new Date(pollData.closedAt).toLocaleString()}).`,
+      );
+      return;
+    }
+
+    try {
+      await ctx.api.stopPoll(pollData.chatId, pollData.messageId);
+    } catch (error) {
+      console.error('Error closing poll:', error);
+      await ctx.reply(
+        `❌ Error closing poll: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+      return;
+    }
+
+    // Freeze a copy of the current roster
+    pollData.closedAt = Date.now();
+    pollData.closedVotes = new Map(
+      Array.from(pollData.votes.entries()).map(([optionId, voters]) => [
+        optionId,
+        new Set(voters),
+      ]),
+    );
+    savePollStore();
+
+    console.log(
+      `[POLL CLOSED] Poll ID: ${pollId}, Question: "${pollData.question}", Chat ID: ${ctx.chat.id}, User: @${ctx.from?.username || 'unknown'}`,
+    );
+
+    scheduleRosterUpdate(ctx.api, pollId);
+
+    await ctx.reply(
+      `🔒 Poll "${pollData.question}" closed. Final roster:\n\n${buildPollVotersText(pollData)}`,
+    );
+  });
+}
+
 /**
  * Register poll answer handler
  */
 export function registerPollAnswerHandler(bot: Bot<MyContext>): void {
+  loadPollStore();
+
   /**
    * Poll answer handler - track votes for non-anonymous polls
    */
@@ -141,6 +465,13 @@ export function registerPollAnswerHandler(bot: Bot<MyContext>): void {
       return; // Not our poll
     }
 
+    if (pollData.closedAt !== undefined) {
+      console.log(
+        `[POLL ANSWER HANDLER] Poll ID ${pollId} is closed, ignoring answer`,
+      );
+      return;
+    }
+
     console.log(`[POLL ANSWER HANDLER] Found poll data for ID ${pollId}:`, {
       question: pollData.question,
       options: pollData.options,
@@ -167,35 +498,32 @@ export function registerPollAnswerHandler(bot: Bot<MyContext>): void {
       return;
     }
 
-    // Check if user has username property (not all user types have it)
-    if (!('username' in user)) {
-      console.log(
-        '[POLL ANSWER HANDLER] User does not have username property, exiting',
-      );
-      return; // Can't track users without username
-    }
-
-    const username = (user as { username?: string }).username;
-    console.log('[POLL ANSWER HANDLER] Username:', username);
+    // Track voters by user id, username is optional
+    const voter: PollVoter = {
+      id: user.id,
+      username: user.username || undefined,
+      firstName: user.first_name,
+      lastName: user.last_name,
+    };
+    pollData.voters.set(voter.id, voter);
+    const voterName = getVoterDisplayName(voter);
+    console.log('[POLL ANSWER HANDLER] Voter:', voterName);
 
-    if (!username) {
-      console.log('[POLL ANSWER HANDLER] Username is empty, exiting');
-      return;
+    // Remember id -> nickname so the voter can be matched if the username is removed later
+    if (voter.username) {
+      linkUser(voter.id, `@${voter.username}`);
     }
 
-    const usernameWithAt = `@${username}`;
-    console.log('[POLL ANSWER HANDLER] Username with @:', usernameWithAt);
-
     // Remove user from all options first (in case they changed their vote)
     console.log(
       '[POLL ANSWER HANDLER] Removing user from all options before adding to new ones',
     );
     pollData.votes.forEach((voters, optionId) => {
-      const hadUser = voters.has(usernameWithAt);
-      voters.delete(usernameWithAt);
+      const hadUser = voters.has(voter.id);
+      voters.delete(voter.id);
       if (hadUser) {
         console.log(
-          `[POLL ANSWER HANDLER] Removed ${usernameWithAt} from option ${optionId} (${pollData.options[optionId]})`,
+          `[POLL ANSWER HANDLER] Removed ${voterName} from option ${optionId} (${pollData.options[optionId]})`,
         );
       }
     });
@@ -207,7 +535,7 @@ export function registerPollAnswerHandler(bot: Bot<MyContext>): void {
         (id) => pollData.options[id] || `Option ${id}`,
       );
       console.log(
-        `[POLL ANSWER] Poll ID: ${pollId}, User: ${usernameWithAt}, Selected: ${selectedOptions.join(', ')}, Question: "${pollData.question}"`,
+        `[POLL ANSWER] Poll ID: ${pollId}, User: ${voterName} (${voter.id}), Selected: ${selectedOptions.join(', ')}, Question: "${pollData.question}"`,
       );
 
       for (const optionId of pollAnswer.option_ids) {
@@ -217,9 +545,9 @@ export function registerPollAnswerHandler(bot: Bot<MyContext>): void {
             `[POLL ANSWER HANDLER] Created new vote set for option ${optionId} (${pollData.options[optionId]})`,
           );
         }
-        pollData.votes.get(optionId)?.add(usernameWithAt);
+        pollData.votes.get(optionId)?.add(voter.id);
         console.log(
-          `[POLL ANSWER HANDLER] Added ${usernameWithAt} to option ${optionId} (${pollData.options[optionId]})`,
+          `[POLL ANSWER HANDLER] Added ${voterName} to option ${optionId} (${pollData.options[optionId]})`,
         );
       }
 
@@ -237,5 +565,36 @@ export function registerPollAnswerHandler(bot: Bot<MyContext>): void {
         '[POLL ANSWER HANDLER] No option_ids provided, user removed from all options',
       );
     }
+
+    // Keep full history of vote changes
+    pollData.history ??= [];
+    pollData.history.push({
+      userId: voter.id,
+      optionIds: pollAnswer.option_ids ?? [],
+      at: Date.now(),
+    });
+
+    const promotedId = updateVoteOrder(pollData, voter.id);
+    savePollStore();
+    scheduleRosterUpdate(ctx.api, pollId);
+
+    const promotedVoter =
+      promotedId !== null ? pollData.voters.get(promotedId) : undefined;
+    if (promotedVoter) {
+      const promoted = getVoterDisplayName(promotedVoter);
+      console.log(
+        `[POLL WAITLIST] Poll ID: ${pollId}, ${voterName} dropped out, ${promoted} promoted`,
+      );
+      try {
+        await ctx.api.sendMessage(
+          pollData.chatId,
+          `🔄 ${voterName} dropped out of "${pollData.question}".\n` +
+            `${promoted} moves from the waitlist to the main list (${pollData.capacity} players).`,
+          { reply_parameters: { message_id: pollData.messageId } },
+        );
+      } catch (error) {
+        console.error('Error announcing waitlist promotion:', error);
+      }
+    }
   });
 }
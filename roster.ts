@@ -0,0 +1,101 @@
+import type { Api } from 'grammy';
+import { buildPollVotersText } from './poll';
+import { activePolls, savePollStore } from './poll-store';
+
+// Minimum delay between roster message edits (Telegram rate-limits edits)
+const ROSTER_UPDATE_DELAY_MS = Number(
+  process.env.ROSTER_UPDATE_DELAY_MS || 5000,
+);
+
+// Poll ID -> pending update timer
+const pendingUpdates = new Map<string, ReturnType<typeof setTimeout>>();
+// Poll IDs with a Telegram request in progress
+const updatesInFlight = new Set<string>();
+
+/**
+ * Build live roster message text for a poll
+ */
+function buildRosterText(pollId: string): string | null {
+  const pollData = activePolls.get(pollId);
+  if (!pollData) return null;
+
+  let text = `📋 ${pollData.question}\n\n${buildPollVotersText(pollData)}`;
+  if (pollData.closedAt !== undefined) {
+    text += `\n🔒 Poll closed ${new Date(pollData.closedAt).toLocaleString()}`;
+  }
+  return text;
+}
+
+/**
+ * Post (and pin) roster message, or edit the existing one
+ */
+async function updateRosterMessage(api: Api, pollId: string): Promise<void> {
+  const pollData = activePolls.get(pollId);
+  const text = buildRosterText(pollId);
+  if (!pollData || !text) return;
+
+  if (pollData.rosterMessageId === undefined) {
+    const message = await api.sendMessage(pollData.chatId, text, {
+      reply_parameters: { message_id: pollData.messageId },
+      disable_notification: true,
+    });
+    pollData.rosterMessageId = message.message_id;
+    savePollStore();
+
+    try {
+      await api.pinChatMessage(pollData.chatId, message.message_id, {
+        disable_notification: true,
+      });
+    } catch (error) {
+      // Bot might not have pin permission, roster still works unpinned
+      console.log(
+        `[ROSTER] Could not pin roster for poll ${pollId}:`,
+        error instanceof Error ? error.message : error,
+      );
+    }
+    return;
+  }
+
+  try {
+    await api.editMessageText(pollData.chatId, pollData.rosterMessageId, text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (message.includes('message is not modified')) {
+      return;
+    }
+    if (message.includes('message to edit not found')) {
+      // Roster was deleted, post a new one next time
+      pollData.rosterMessageId = undefined;
+      savePollStore();
+    }
+    throw error;
+  }
+}
+
+/**
+ * Schedule a debounced roster update for a poll
+ * At most one edit per ROSTER_UPDATE_DELAY_MS, covering all votes since the last one
+ */
+export function scheduleRosterUpdate(api: Api, pollId: string): void {
+  if (pendingUpdates.has(pollId)) return;
+
+  const timer = setTimeout(async () => {
+    pendingUpdates.delete(pollId);
+
+    if (updatesInFlight.has(pollId)) {
+      scheduleRosterUpdate(api, pollId);
+      return;
+    }
+
+    updatesInFlight.add(pollId);
+    try {
+      await updateRosterMessage(api, pollId);
+    } catch (error) {
+      console.error(`Error updating roster for poll ${pollId}:`, error);
+    } finally {
+      updatesInFlight.delete(pollId);
+    }
+  }, ROSTER_UPDATE_DELAY_MS);
+
+  pendingUpdates.set(pollId, timer);
+}
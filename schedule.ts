@@ -0,0 +1,258 @@
+import type { Bot } from 'grammy';
+import { parseWeekday } from './dates';
+import { createTrackedPoll, parsePollDefinition } from './poll';
+import type { MyContext } from './session';
+import { dataFilePath, readJsonFile, writeJsonFile } from './storage';
+
+const SCHEDULE_STORE_PATH =
+  process.env.SCHEDULE_STORE_PATH || dataFilePath('schedules.json');
+const SCHEDULER_INTERVAL_MS = 60 * 1000; // Check schedules every minute
+const SCHEDULE_MISSED_GRACE_MS = 6 * 60 * 60 * 1000; // Skip posts missed by more than 6 hours
+
+const SCHEDULE_USAGE =
+  'Usage: /schedule <weekday> <HH:MM> [game=<weekday>] [max=N] Question {date}? | Option1 | Option2\n' +
+  'Example: /schedule mon 10:00 game=sat Football {date}? | Yes | No\n\n' +
+  '• /schedule list - show schedules in this chat\n' +
+  '• /schedule remove <id> - delete a schedule';
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Recurring weekly poll definition
+ */
+export interface ScheduledPoll {
+  id: string;
+  chatId: number;
+  weekday: number; // Day to post the poll (0 = Sunday)
+  hour: number;
+  minute: number;
+  gameWeekday: number; // Day of the game, used for {date} in the question
+  questionTemplate: string; // "{date}" is replaced with the upcoming game date
+  options: string[];
+  capacity?: number; // Player cap for the first option (see /poll max=N)
+  createdBy: string;
+  createdAt: number;
+  lastPostedAt?: number;
+}
+
+const schedules = new Map<string, ScheduledPoll>(
+  Object.entries(
+    readJsonFile<Record<string, ScheduledPoll>>(SCHEDULE_STORE_PATH, {}),
+  ),
+);
+
+/**
+ * Persist all schedules to disk
+ */
+function saveSchedules(): void {
+  try {
+    writeJsonFile(SCHEDULE_STORE_PATH, Object.fromEntries(schedules));
+  } catch (error) {
+    console.error('[SCHEDULE STORE] Failed to save schedules:', error);
+  }
+}
+
+/**
+ * Get the most recent scheduled post time at or before now
+ */
+function getLastOccurrence(schedule: ScheduledPoll, now: Date): Date {
+  const occurrence = new Date(now);
+  occurrence.setHours(schedule.hour, schedule.minute, 0, 0);
+  const daysSince = (now.getDay() - schedule.weekday + 7) % 7;
+  occurrence.setDate(occurrence.getDate() - daysSince);
+  if (occurrence > now) {
+    occurrence.setDate(occurrence.getDate() - 7);
+  }
+  return occurrence;
+}
+
+/**
+ * Get the upcoming date of the given weekday (today counts as upcoming)
+ */
+function getUpcomingWeekdayDate(weekday: number, from: Date): Date {
+  const date = new Date(from);
+  date.setDate(date.getDate() + ((weekday - from.getDay() + 7) % 7));
+  return date;
+}
+
+/**
+ * Substitute {date} in question template, e.g. "December 13"
+ */
+function buildScheduledQuestion(schedule: ScheduledPoll, now: Date): string {
+  const gameDate = getUpcomingWeekdayDate(schedule.gameWeekday, now);
+  const dateText = gameDate.toLocaleDateString('en-US', {
+    month: 'long',
+    day: 'numeric',
+  });
+  return schedule.questionTemplate.replace(/\{date\}/gi, dateText);
+}
+
+/**
+ * Format schedule for list output
+ */
+function formatSchedule(schedule: ScheduledPoll): string {
+  const time = `${String(schedule.hour).padStart(2, '0')}:${String(schedule.minute).padStart(2, '0')}`;
+  return (
+    `• ${schedule.id}: every ${WEEKDAY_LABELS[schedule.weekday]} ${time} ` +
+    `(game ${WEEKDAY_LABELS[schedule.gameWeekday]}) - "${schedule.questionTemplate}" | ${schedule.options.join(' | ')}`
+  );
+}
+
+/**
+ * Post all schedules that are due
+ */
+async function runDueSchedules(bot: Bot<MyContext>): Promise<void> {
+  const now = new Date();
+
+  for (const schedule of schedules.values()) {
+    const occurrence = getLastOccurrence(schedule, now);
+    const lastPosted = schedule.lastPostedAt ?? schedule.createdAt;
+    if (occurrence.getTime() <= lastPosted) {
+      continue;
+    }
+
+    schedule.lastPostedAt = now.getTime();
+    saveSchedules();
+
+    // Bot was down for too long, skip this week instead of posting late
+    if (now.getTime() - occurrence.getTime() > SCHEDULE_MISSED_GRACE_MS) {
+      console.log(
+        `[SCHEDULE] Skipped missed post for schedule ${schedule.id} (due ${occurrence.toISOString()})`,
+      );
+      continue;
+    }
+
+    try {
+      await createTrackedPoll(
+        bot.api,
+        schedule.chatId,
+        buildScheduledQuestion(schedule, now),
+        schedule.options,
+        `schedule ${schedule.id}`,
+        schedule.capacity,
+      );
+    } catch (error) {
+      console.error(`Error posting scheduled poll ${schedule.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Start background scheduler that posts recurring polls
+ */
+export function startPollScheduler(bot: Bot<MyContext>): void {
+  console.log(`[SCHEDULE] Loaded ${schedules.size} schedule(s)`);
+  setInterval(() => {
+    runDueSchedules(bot).catch((error) => {
+      console.error('Error running poll scheduler:', error);
+    });
+  }, SCHEDULER_INTERVAL_MS);
+}
+
+/**
+ * Register /schedule command handler
+ */
+export function registerScheduleCommand(bot: Bot<MyContext>): void {
+  /**
+   * Schedule command handler - manage recurring weekly polls for this chat
+   */
+  bot.command('schedule', async (ctx) => {
+    const content = ctx.match.trim();
+
+    // List schedules
+    if (content === '' || content.toLowerCase() === 'list') {
+      const chatSchedules = Array.from(schedules.values()).filter(
+        (s) => s.chatId === ctx.chat.id,
+      );
+      if (chatSchedules.length === 0) {
+        await ctx.reply(
+          `ℹ️ No scheduled polls in this chat.\n\n${SCHEDULE_USAGE}`,
+        );
+        return;
+      }
+      await ctx.reply(
+        `🗓 Scheduled polls:\n\n${chatSchedules.map(formatSchedule).join('\n')}`,
+      );
+      return;
+    }
+
+    // Remove schedule
+    const removeMatch = /^(?:remove|delete)\s+(\S+)$/i.exec(content);
+    if (removeMatch) {
+      const schedule = schedules.get(removeMatch[1]);
+      if (!schedule || schedule.chatId !== ctx.chat.id) {
+        await ctx.reply(
+          `❌ Schedule ${removeMatch[1]} not found in this chat.`,
+        );
+        return;
+      }
+      schedules.delete(schedule.id);
+      saveSchedules();
+      await ctx.reply(`✅ Schedule ${schedule.id} removed.`);
+      return;
+    }
+
+    // Create schedule
+    const match =
+      /^(\S+)\s+(\d{1,2}):(\d{2})\s+(?:game=(\S+)\s+)?([\s\S]+)$/i.exec(
+        content,
+      );
+    if (!match) {
+      await ctx.reply(`❌ Invalid schedule.\n\n${SCHEDULE_USAGE}`);
+      return;
+    }
+
+    const weekday = parseWeekday(match[1]);
+    const gameWeekday = match[4] ? parseWeekday(match[4]) : weekday;
+    const hour = parseInt(match[2], 10);
+    const minute = parseInt(match[3], 10);
+
+    if (weekday === null || gameWeekday === null) {
+      await ctx.reply(
+        `❌ Unknown weekday. Use e.g. "sat", "saturday" or "сб".\n\n${SCHEDULE_USAGE}`,
+      );
+      return;
+    }
+
+    if (hour > 23 || minute > 59) {
+      await ctx.reply(`❌ Invalid time "${match[2]}:${match[3]}".`);
+      return;
+    }
+
+    const definition = parsePollDefinition(match[5]);
+    if (!definition) {
+      await ctx.reply(
+        `❌ Please provide at least a question and one option.\n\n${SCHEDULE_USAGE}`,
+      );
+      return;
+    }
+
+    const schedule: ScheduledPoll = {
+      id: Date.now().toString(36),
+      chatId: ctx.chat.id,
+      weekday,
+      hour,
+      minute,
+      gameWeekday,
+      questionTemplate: definition.question,
+      options: definition.options,
+      capacity: definition.capacity,
+      createdBy: `@${ctx.from?.username || 'unknown'}`,
+      createdAt: Date.now(),
+    };
+    schedules.set(schedule.id, schedule);
+    saveSchedules();
+
+    console.log(
+      `[SCHEDULE CREATED] ID: ${schedule.id}, Chat ID: ${ctx.chat.id}, User: ${schedule.createdBy}`,
+    );
+
+    const nextPost = getLastOccurrence(schedule, new Date());
+    nextPost.setDate(nextPost.getDate() + 7);
+    await ctx.reply(
+      `✅ Poll scheduled:\n${formatSchedule(schedule)}\n\n` +
+        `Next post: ${nextPost.toLocaleString()}\n` +
+        `Question: "${buildScheduledQuestion(schedule, nextPost)}"`,
+    );
+  });
+}
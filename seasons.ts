@@ -0,0 +1,129 @@
+import type { Bot } from 'grammy';
+import {
+  getBoundSheetName,
+  getSheetBinding,
+  initChatSheetsClient,
+  setBoundSheetName,
+} from './bindings';
+import { isChatAdmin } from './bot-helpers';
+import { getSheetLayout, isLayoutFieldConfigured } from './layout';
+import type { MyContext } from './session';
+import { initSheetsClient, type SheetsClient, type Worksheet } from './sheets';
+
+/**
+ * Find worksheets that can hold a season (everything except the payments tab)
+ */
+async function listSeasonTabs(ctx: MyContext): Promise<Worksheet[]> {
+  const binding = { ...getSheetBinding(ctx), sheetName: undefined };
+  const sheetsClient = await initSheetsClient(binding);
+  const worksheets = await sheetsClient.listWorksheets();
+  const { paymentsSheetName } = getSheetLayout();
+  return worksheets.filter((sheet) => sheet.title !== paymentsSheetName);
+}
+
+/**
+ * Pick the tab to update
+ * A requested tab must exist (case-insensitive match); otherwise the chat's
+ * configured tab is used, then the layout's sheet name if set explicitly
+ * (SHEET_NAME or the layout file), and otherwise the most recent (rightmost) tab
+ * @throws Error if the requested tab does not exist
+ */
+export async function pickSeasonTab(
+  ctx: MyContext,
+  requested?: string,
+): Promise<string> {
+  const tabs = await listSeasonTabs(ctx);
+
+  if (requested) {
+    const match = tabs.find(
+      (tab) => tab.title.toLowerCase() === requested.toLowerCase(),
+    );
+    if (!match) {
+      throw new Error(
+        `Tab "${requested}" not found. Available tabs: ${tabs.map((tab) => tab.title).join(', ')}`,
+      );
+    }
+    return match.title;
+  }
+
+  const configured = getBoundSheetName(ctx);
+  if (configured && tabs.some((tab) => tab.title === configured)) {
+    return configured;
+  }
+  const { sheetName } = getSheetLayout();
+  if (
+    isLayoutFieldConfigured('sheetName') &&
+    tabs.some((tab) => tab.title === sheetName)
+  ) {
+    return sheetName;
+  }
+  return tabs[tabs.length - 1]?.title ?? sheetName;
+}
+
+/**
+ * Create a Sheets client for the tab /update uses by default (or the tab of
+ * the running /update flow), so balance reads and payments hit the same tab
+ */
+export async function initSeasonSheetsClient(
+  ctx: MyContext,
+): Promise<SheetsClient> {
+  return initChatSheetsClient(ctx, {
+    sheetName: ctx.session.sheetName ?? (await pickSeasonTab(ctx)),
+  });
+}
+
+/**
+ * Register /newseason command handler
+ */
+export function registerNewSeasonCommand(bot: Bot<MyContext>): void {
+  /**
+   * New season command handler - copy roster and header rows into a new tab
+   * and make it the chat's current tab (admins only)
+   * Usage: /newseason <tab name>
+   */
+  bot.command('newseason', async (ctx) => {
+    const title = ctx.match.trim();
+    if (!title) {
+      await ctx.reply(
+        '❌ Usage: /newseason <tab name>\n\nExample: /newseason Season 2026/27',
+      );
+      return;
+    }
+
+    if (!(await isChatAdmin(ctx))) {
+      await ctx.reply('❌ Only chat admins can start a new season.');
+      return;
+    }
+
+    try {
+      const tabs = await listSeasonTabs(ctx);
+      if (tabs.some((tab) => tab.title.toLowerCase() === title.toLowerCase())) {
+        await ctx.reply(`❌ Tab "${title}" already exists.`);
+        return;
+      }
+
+      const sourceTab = await pickSeasonTab(ctx);
+      await ctx.reply(`⏳ Creating tab "${title}" from "${sourceTab}"...`);
+
+      const sheetsClient = await initSheetsClient({
+        ...getSheetBinding(ctx),
+        sheetName: sourceTab,
+      });
+      await sheetsClient.createSeasonTab(title);
+      setBoundSheetName(ctx, title);
+
+      console.log(
+        `[NEW SEASON] Tab: ${title}, Source: ${sourceTab}, Chat ID: ${ctx.chat.id}, User: @${ctx.from?.username || 'unknown'}`,
+      );
+      await ctx.reply(
+        `✅ Created tab "${title}" with the roster and header rows of "${sourceTab}".\n` +
+          `/update now uses "${title}" by default.`,
+      );
+    } catch (error) {
+      console.error('Error creating season tab:', error);
+      await ctx.reply(
+        `❌ Error creating season tab: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  });
+}
@@ -0,0 +1,66 @@
+import { enhanceStorage, type Migrations, type StorageAdapter } from 'grammy';
+import { createInitialSessionData, type SessionData } from './session';
+import { dataFilePath, readJsonFile, writeJsonFile } from './storage';
+
+const SESSION_STORE_PATH =
+  process.env.SESSION_STORE_PATH || dataFilePath('sessions.json');
+
+/**
+ * SessionData migrations (version -> upgrade function)
+ * Add a new entry with the next version number whenever SessionData changes
+ */
+const sessionMigrations: Migrations = {
+  // v1: sessions written before versioning may lack newer fields
+  1: (old: Partial<SessionData>): SessionData => ({
+    ...createInitialSessionData(),
+    ...old,
+  }),
+  // v2: sessions get an activity timestamp for expiry
+  2: (old: SessionData): SessionData => ({
+    ...old,
+    updatedAt: old.updatedAt ?? Date.now(),
+  }),
+};
+
+/**
+ * Create JSON file backed storage adapter
+ * All entries are kept in memory and flushed to disk on every change
+ */
+function createFileStorage<T>(path: string): StorageAdapter<T> {
+  const entries = new Map<string, T>(
+    Object.entries(readJsonFile<Record<string, T>>(path, {})),
+  );
+
+  function flush(): void {
+    try {
+      writeJsonFile(path, Object.fromEntries(entries));
+    } catch (error) {
+      console.error('[SESSION STORE] Failed to save sessions:', error);
+    }
+  }
+
+  return {
+    read: (key) => entries.get(key),
+    write: (key, value) => {
+      entries.set(key, value);
+      flush();
+    },
+    delete: (key) => {
+      if (entries.delete(key)) {
+        flush();
+      }
+    },
+    has: (key) => entries.has(key),
+    readAllKeys: () => entries.keys(),
+  };
+}
+
+/**
+ * Create persistent session storage with versioned migrations
+ */
+export function createSessionStorage(): StorageAdapter<SessionData> {
+  return enhanceStorage<SessionData>({
+    storage: createFileStorage(SESSION_STORE_PATH),
+    migrations: sessionMigrations,
+  });
+}
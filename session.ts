@@ -1,4 +1,6 @@
 import type { Context, SessionFlavor } from 'grammy';
+import { SESSION_TTL_MINUTES } from './constants';
+import type { ColumnMetadata } from './sheets';
 
 export interface SessionData {
   state:
@@ -11,10 +13,14 @@ export interface SessionData {
     | 'awaiting_player_count'
     | 'awaiting_player_count_confirmation'
     | 'awaiting_usernames'
+    | 'awaiting_nickname_suggestions'
+    | 'awaiting_roster_addition'
     | 'awaiting_override_confirmation'
+    | 'awaiting_write_confirmation'
     | 'awaiting_poll_intent'
     | 'awaiting_poll_option_selection';
-  usernames: string[];
+  usernames: string[]; // "@username" or "id:<user id>" for voters without username
+  voterNames?: Array<[string, string]>; // Voter token -> display name for id-only voters
   detectedColumn?: string;
   targetColumn?: string;
   isNewColumn?: boolean;
@@ -27,6 +33,62 @@ export interface SessionData {
   pollId?: string; // For poll-based workflow
   pollQuestion?: string; // For display
   columnMatches?: Array<{ column: string; date: string }>; // For column selection when multiple matches found
+  nicknameSuggestions?: Array<{
+    username: string;
+    nickname: string;
+    row: number;
+  }>; // "Did you mean" matches offered for unknown usernames
+  newRosterNicknames?: string[]; // Unknown usernames to add as roster rows on write
+  sheetName?: string; // Tab picked for the current /update flow
+  pendingMetadata?: ColumnMetadata; // Rows 1-3 values, written after the preview is confirmed
+  overrideExisting?: boolean; // Override choice for the previewed write
+  dryRun?: boolean; // /update --dry-run: stop after the preview
+  undoGroupId?: string; // Groups this flow's sheet writes into one /undo step
+  updatedAt?: number; // Last activity timestamp (ms), used for session expiry
+}
+
+/**
+ * Create initial session data for a new chat
+ */
+export function createInitialSessionData(): SessionData {
+  return {
+    state: 'idle',
+    usernames: [],
+    voterNames: undefined,
+    detectedColumn: undefined,
+    targetColumn: undefined,
+    isNewColumn: undefined,
+    dateName: undefined,
+    cost: undefined,
+    playerCount: undefined,
+    column: undefined,
+    nicknameRowsEntries: undefined,
+    existingValuesEntries: undefined,
+    pollId: undefined,
+    pollQuestion: undefined,
+    columnMatches: undefined,
+    nicknameSuggestions: undefined,
+    newRosterNicknames: undefined,
+    sheetName: undefined,
+    pendingMetadata: undefined,
+    overrideExisting: undefined,
+    dryRun: undefined,
+    undoGroupId: undefined,
+    updatedAt: undefined,
+  };
+}
+
+/**
+ * Check whether an unfinished flow has been inactive longer than the TTL
+ */
+export function isSessionExpired(
+  session: SessionData,
+  now: number = Date.now(),
+): boolean {
+  if (session.state === 'idle' || session.updatedAt === undefined) {
+    return false;
+  }
+  return now - session.updatedAt > SESSION_TTL_MINUTES * 60 * 1000;
 }
 
 /**
@@ -35,6 +97,7 @@ export interface SessionData {
 export function resetSession(session: SessionData): void {
   session.state = 'idle';
   session.usernames = [];
+  session.voterNames = undefined;
   session.detectedColumn = undefined;
   session.targetColumn = undefined;
   session.isNewColumn = undefined;
@@ -47,6 +110,14 @@ export function resetSession(session: SessionData): void {
   session.pollId = undefined;
   session.pollQuestion = undefined;
   session.columnMatches = undefined;
+  session.nicknameSuggestions = undefined;
+  session.newRosterNicknames = undefined;
+  session.sheetName = undefined;
+  session.pendingMetadata = undefined;
+  session.overrideExisting = undefined;
+  session.dryRun = undefined;
+  session.undoGroupId = undefined;
+  session.updatedAt = undefined;
 }
 
 export type MyContext = Context & SessionFlavor<SessionData>;
@@ -1,24 +1,41 @@
-import type { JWT } from 'google-auth-library';
-import { google } from 'googleapis';
 import { existsSync, readFileSync } from 'node:fs';
 import { join } from 'node:path';
+import type { JWT } from 'google-auth-library';
+import { google, type sheets_v4 } from 'googleapis';
+import { getNicknameAlias, normalizeNickname } from './aliases';
+import {
+  type DayMonth,
+  isSameDay,
+  nearestDayNumber,
+  parseDateQuery,
+  parseDateSerial,
+  parseDayMonth,
+  toDayNumbers,
+} from './dates';
 import {
-  SHEET_COST_ROW,
-  SHEET_DATA_FIRST_COLUMN,
-  SHEET_DATA_FIRST_ROW,
-  SHEET_DATE_ROW,
-  SHEET_EXCLUDE_COLUMN_PATTERN,
-  SHEET_NAME,
-  SHEET_NICKNAME_COLUMN,
-  SHEET_PLAYER_COUNT_ROW,
-} from './constants';
-
-const SPREADSHEET_ID = process.env.SPREADSHEET_ID;
+  getBalanceColumnRegex,
+  getSheetLayout,
+  type SheetLayout,
+} from './layout';
+import { USER_ID_TOKEN_PREFIX } from './poll';
+import { getLinkedNickname } from './user-links';
+
 const SHEETS_API_SCOPE = 'https://www.googleapis.com/auth/spreadsheets';
 
-if (!SPREADSHEET_ID) {
-  throw new Error('SPREADSHEET_ID environment variable is required');
-}
+// Retries on rate limiting / server errors (delay doubles after each attempt)
+const SHEETS_MAX_RETRIES = Number(process.env.SHEETS_MAX_RETRIES || 4);
+const SHEETS_RETRY_BASE_DELAY_MS = Number(
+  process.env.SHEETS_RETRY_BASE_DELAY_MS || 1000,
+);
+
+// How long header rows and nickname column reads are reused
+const SHEETS_CACHE_TTL_MS = Number(process.env.SHEETS_CACHE_TTL_MS || 30000);
+
+// "<spreadsheet id>|<cell>" -> pending payment column update (serializes /paid)
+const paymentCellQueue = new Map<string, Promise<number>>();
+
+// "<spreadsheet id>|<range>" -> cached values
+const readCache = new Map<string, { expiresAt: number; values: unknown[][] }>();
 
 /**
  * Convert column letter to index (0-based)
@@ -47,26 +64,67 @@ function indexToColumnLetter(index: number): string {
   return result;
 }
 
-/**
- * Get next column letter
- * "O" -> "P", "Z" -> "AA"
- */
-function getNextColumnLetter(letter: string): string {
-  const index = columnLetterToIndex(letter);
-  return indexToColumnLetter(index + 1);
-}
-
 interface ExistingValue {
   nickname: string;
   value: string | number;
 }
 
+interface BalanceColumn {
+  column: string;
+  header: string;
+}
+
+interface PaymentEntry {
+  date: string;
+  nickname: string;
+  row: number; // Player's row in the main sheet
+  amount: number;
+  recordedBy: string;
+  note: string;
+}
+
+interface Worksheet {
+  sheetId: number;
+  title: string;
+  index: number; // Position in the tab bar
+}
+
+interface SheetBinding {
+  spreadsheetId: string;
+  sheetName?: string; // Tab to use instead of the layout's sheet name
+}
+
+interface CellChange {
+  range: string; // Single cell, e.g. "'Sheet1'!F7"
+  before: string | number; // Previous contents ('' if empty, formulas as "=...")
+  after: string | number;
+}
+
+interface SheetsClientOptions {
+  layout?: SheetLayout; // Defaults to the loaded layout
+  onRetry?: (attempt: number, delayMs: number) => void; // Called before each retry
+  onWrite?: (changes: CellChange[]) => void; // Called after writeZeros/writeColumnMetadata/appendRosterRows
+  onShift?: (
+    sheetName: string,
+    dimension: 'COLUMNS' | 'ROWS',
+    startIndex: number, // 0-based index of the first inserted or deleted column or row
+    count: number, // Negative when deleted
+  ) => void; // Called after insertGameColumn/deleteGameColumn/appendRosterRows shift existing cells
+}
+
 interface ColumnMetadata {
   date?: string;
   cost?: number;
   playerCount?: number;
 }
 
+interface HeaderColumn {
+  column: string; // Column letter(s), e.g. "F" or "AAB"
+  index: number; // 0-based column index
+  header: string; // Displayed row 1 text
+  date: DayMonth | null; // Parsed header date (null if not a date)
+}
+
 interface SheetsClient {
   findNicknameRows: (nicknames: string[]) => Promise<Map<string, number>>;
   checkExistingValues: (
@@ -77,7 +135,9 @@ interface SheetsClient {
     nicknameRows: Map<string, number>,
     column: string,
     overrideExisting?: boolean,
+    amounts?: Map<string, number>,
   ) => Promise<{ updated: number; notFound: string[] }>;
+  getDateColumns: () => Promise<HeaderColumn[]>;
   findLastDateColumn: () => Promise<{ column: string; date: string } | null>;
   findColumnByDateText: (text: string) => Promise<
     | { success: true; column: string; date: string }
@@ -95,12 +155,33 @@ interface SheetsClient {
     cost?: number,
     playerCount?: number,
   ) => Promise<void>;
+  findBalanceColumns: () => Promise<BalanceColumn[]>;
+  readCellValues: (
+    nicknameRows: Map<string, number>,
+    column: string,
+  ) => Promise<Map<string, string | number>>;
+  findAllNicknameRows: () => Promise<Map<string, number>>;
+  readColumnNumbers: (column: string) => Promise<Map<number, number>>;
+  recordPayment: (entry: PaymentEntry) => Promise<string>;
+  listWorksheets: () => Promise<Worksheet[]>;
+  createSeasonTab: (title: string) => Promise<void>;
+  appendRosterRows: (nicknames: string[]) => Promise<Map<string, number>>;
+  planGameColumn: (
+    header: string,
+  ) => Promise<{ column: string; after: string | null }>;
+  insertGameColumn: (column: string) => Promise<void>;
+  deleteGameColumn: (column: string) => Promise<void>;
+  invalidateCache: () => void;
+  readCellFormulas: (ranges: string[]) => Promise<Array<string | number>>;
+  restoreCells: (
+    cells: Array<{ range: string; value: string | number }>,
+  ) => Promise<void>;
 }
 
 /**
- * Initialize Google Sheets client using Service Account authentication
+ * Create Service Account credentials
  */
-async function initSheetsClient(): Promise<SheetsClient> {
+function createAuth(): JWT {
   let auth: JWT;
 
   // Priority 1: Use JSON file path from env
@@ -178,10 +259,223 @@ async function initSheetsClient(): Promise<SheetsClient> {
     }
   }
 
-  const sheets = google.sheets({ version: 'v4', auth });
+  return auth;
+}
+
+// Shared Sheets API client (credentials are read once)
+let sheetsApi: sheets_v4.Sheets | null = null;
+
+/**
+ * Get the shared Sheets API client, creating it on first use
+ */
+function getSheetsApi(): sheets_v4.Sheets {
+  if (!sheetsApi) {
+    sheetsApi = google.sheets({ version: 'v4', auth: createAuth() });
+  }
+  return sheetsApi;
+}
+
+/**
+ * Get HTTP status of a Google API error
+ */
+function getErrorStatus(error: unknown): number {
+  return Number(
+    (error as { code?: unknown })?.code ??
+      (error as { response?: { status?: unknown } })?.response?.status,
+  );
+}
+
+/**
+ * Run a Google API request, retrying with exponential backoff on 429/5xx
+ * @param onRetry - called before each retry (e.g. to tell the user)
+ * @param retryServerErrors - false for requests that may have been applied despite a 5xx
+ */
+async function withRetry<T>(
+  request: () => Promise<T>,
+  onRetry?: (attempt: number, delayMs: number) => void,
+  retryServerErrors: boolean = true,
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      const status = getErrorStatus(error);
+      const retryable =
+        status === 429 || (retryServerErrors && status >= 500 && status < 600);
+      if (attempt > SHEETS_MAX_RETRIES || !retryable) {
+        throw error;
+      }
+      const delayMs = SHEETS_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+      console.log(
+        `[SHEETS RETRY] Attempt ${attempt}/${SHEETS_MAX_RETRIES}, waiting ${delayMs}ms:`,
+        error instanceof Error ? error.message : error,
+      );
+      onRetry?.(attempt, delayMs);
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
+
+/**
+ * Initialize Google Sheets client for a spreadsheet
+ * The underlying API client and read cache are shared between calls
+ * @param binding - spreadsheet (and optional tab) of the current chat
+ */
+async function initSheetsClient(
+  binding: SheetBinding,
+  options: SheetsClientOptions = {},
+): Promise<SheetsClient> {
+  const { spreadsheetId } = binding;
+  const baseLayout = options.layout ?? getSheetLayout();
+  const layout: SheetLayout = binding.sheetName
+    ? { ...baseLayout, sheetName: binding.sheetName }
+    : baseLayout;
+  const balanceColumnRegex = getBalanceColumnRegex(layout);
+
+  const sheets = getSheetsApi();
+  const call = <T>(request: () => Promise<T>, idempotent = true) =>
+    withRetry(request, options.onRetry, idempotent);
+
+  /**
+   * Read ranges through the short-lived cache (header rows, nickname column)
+   * Returns values for each range in the same order
+   * @param unformatted - read raw values (dates as serial numbers) instead of displayed text
+   */
+  async function readCachedRanges(
+    ranges: string[],
+    unformatted = false,
+  ): Promise<unknown[][][]> {
+    const now = Date.now();
+    const cacheKey = (range: string) =>
+      `${spreadsheetId}|${range}${unformatted ? '|raw' : ''}`;
+    const missing = ranges.filter((range) => {
+      const cached = readCache.get(cacheKey(range));
+      return !cached || cached.expiresAt <= now;
+    });
+
+    if (missing.length > 0) {
+      const response = await call(() =>
+        sheets.spreadsheets.values.batchGet({
+          spreadsheetId,
+          ranges: missing,
+          ...(unformatted && {
+            valueRenderOption: 'UNFORMATTED_VALUE',
+            dateTimeRenderOption: 'SERIAL_NUMBER',
+          }),
+        }),
+      );
+      missing.forEach((range, index) => {
+        readCache.set(cacheKey(range), {
+          expiresAt: now + SHEETS_CACHE_TTL_MS,
+          values: response.data.valueRanges?.[index]?.values || [],
+        });
+      });
+    }
+
+    return ranges.map((range) => readCache.get(cacheKey(range))?.values ?? []);
+  }
+
+  /**
+   * Drop cached reads of this spreadsheet (called after every write)
+   */
+  function invalidateCache(): void {
+    for (const key of readCache.keys()) {
+      if (key.startsWith(`${spreadsheetId}|`)) {
+        readCache.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Read raw cell contents (formulas instead of their results)
+   * Returns one value per range, '' for empty cells
+   */
+  async function readCellFormulas(
+    ranges: string[],
+  ): Promise<Array<string | number>> {
+    if (ranges.length === 0) return [];
+
+    const response = await call(() =>
+      sheets.spreadsheets.values.batchGet({
+        spreadsheetId,
+        ranges,
+        valueRenderOption: 'FORMULA',
+      }),
+    );
+    return ranges.map(
+      (_range, index) =>
+        response.data.valueRanges?.[index]?.values?.[0]?.[0] ?? '',
+    );
+  }
+
+  /**
+   * Write single-cell updates, capturing previous contents for /undo
+   */
+  async function writeWithSnapshot(
+    updates: Array<{ range: string; values: (string | number)[][] }>,
+  ): Promise<void> {
+    const before = await readCellFormulas(updates.map((u) => u.range));
+
+    await call(() =>
+      sheets.spreadsheets.values.batchUpdate({
+        spreadsheetId,
+        requestBody: {
+          valueInputOption: 'RAW',
+          data: updates,
+        },
+      }),
+    );
+    invalidateCache();
+
+    options.onWrite?.(
+      updates.map((update, index) => ({
+        range: update.range,
+        before: before[index],
+        after: update.values[0][0],
+      })),
+    );
+  }
+
+  /**
+   * Write cell contents back (used by /undo, not recorded as a change)
+   * Formulas are entered as formulas, everything else as raw values
+   */
+  async function restoreCells(
+    cells: Array<{ range: string; value: string | number }>,
+  ): Promise<void> {
+    const isFormula = (value: string | number) =>
+      typeof value === 'string' && value.startsWith('=');
+    const toData = (list: typeof cells) =>
+      list.map((cell) => ({ range: cell.range, values: [[cell.value]] }));
+
+    const formulas = cells.filter((cell) => isFormula(cell.value));
+    const values = cells.filter((cell) => !isFormula(cell.value));
+    if (values.length > 0) {
+      await call(() =>
+        sheets.spreadsheets.values.batchUpdate({
+          spreadsheetId,
+          requestBody: { valueInputOption: 'RAW', data: toData(values) },
+        }),
+      );
+    }
+    if (formulas.length > 0) {
+      await call(() =>
+        sheets.spreadsheets.values.batchUpdate({
+          spreadsheetId,
+          requestBody: {
+            valueInputOption: 'USER_ENTERED',
+            data: toData(formulas),
+          },
+        }),
+      );
+    }
+    invalidateCache();
+  }
 
   /**
-   * Find row numbers for given nicknames in column B
+   * Find row numbers for given nicknames in the nickname column
+   * Voters without username ("id:<user id>") are matched via the optional
+   * user id column or the id -> nickname links
    * Returns a map of nickname -> row number
    */
   async function findNicknameRows(
@@ -189,33 +483,61 @@ async function initSheetsClient(): Promise<SheetsClient> {
   ): Promise<Map<string, number>> {
     // Normalize nicknames: remove @ and convert to lowercase for matching
     const normalizedNicknames = new Map<string, string>();
+    const userIdTokens = new Map<string, string>();
     nicknames.forEach((nick) => {
-      const normalized = nick.replace(/^@/, '').toLowerCase();
-      normalizedNicknames.set(normalized, nick);
-    });
-
-    // Read column B starting from row 7
-    const range = `${SHEET_NICKNAME_COLUMN}${SHEET_DATA_FIRST_ROW}:${SHEET_NICKNAME_COLUMN}`;
-    const response = await sheets.spreadsheets.values.get({
-      spreadsheetId: SPREADSHEET_ID,
-      range,
+      if (nick.startsWith(USER_ID_TOKEN_PREFIX)) {
+        const userId = nick.slice(USER_ID_TOKEN_PREFIX.length);
+        userIdTokens.set(userId, nick);
+        const linkedNickname = getLinkedNickname(spreadsheetId, userId);
+        if (linkedNickname) {
+          normalizedNicknames.set(
+            linkedNickname.replace(/^@/, '').toLowerCase(),
+            nick,
+          );
+        }
+        return;
+      }
+      // Renamed players are matched by their sheet nickname (see /alias)
+      normalizedNicknames.set(
+        normalizeNickname(getNicknameAlias(spreadsheetId, nick) ?? nick),
+        nick,
+      );
     });
 
-    const rows = response.data.values || [];
+    // Read the nickname column (and user id column if configured) from the first player row
+    const ranges = [
+      `'${layout.sheetName}'!${layout.nicknameColumn}${layout.dataFirstRow}:${layout.nicknameColumn}`,
+    ];
+    const readUserIds = layout.userIdColumn !== '' && userIdTokens.size > 0;
+    if (readUserIds) {
+      ranges.push(
+        `'${layout.sheetName}'!${layout.userIdColumn}${layout.dataFirstRow}:${layout.userIdColumn}`,
+      );
+    }
+    const [rows, idRows] = await readCachedRanges(ranges);
     const nicknameToRow = new Map<string, number>();
 
     rows.forEach((row, index) => {
       if (row[0]) {
-        // Normalize the nickname from sheet (remove @, lowercase)
-        const sheetNickname = String(row[0]).replace(/^@/, '').toLowerCase();
+        // Normalize the nickname from sheet (trim, remove @, lowercase)
+        const sheetNickname = normalizeNickname(String(row[0]));
         const originalNickname = normalizedNicknames.get(sheetNickname);
         if (originalNickname) {
-          const actualRow = SHEET_DATA_FIRST_ROW + index;
+          const actualRow = layout.dataFirstRow + index;
           nicknameToRow.set(originalNickname, actualRow);
         }
       }
     });
 
+    if (readUserIds) {
+      idRows.forEach((row, index) => {
+        const token = row[0] ? userIdTokens.get(String(row[0]).trim()) : null;
+        if (token && !nicknameToRow.has(token)) {
+          nicknameToRow.set(token, layout.dataFirstRow + index);
+        }
+      });
+    }
+
     return nicknameToRow;
   }
 
@@ -234,14 +556,16 @@ async function initSheetsClient(): Promise<SheetsClient> {
     // Build range for all cells we want to check
     const ranges: string[] = [];
     nicknameRows.forEach((row) => {
-      ranges.push(`'${SHEET_NAME}'!${column}${row}`);
+      ranges.push(`'${layout.sheetName}'!${column}${row}`);
     });
 
     // Read all values at once using batchGet
-    const response = await sheets.spreadsheets.values.batchGet({
-      spreadsheetId: SPREADSHEET_ID,
-      ranges,
-    });
+    const response = await call(() =>
+      sheets.spreadsheets.values.batchGet({
+        spreadsheetId,
+        ranges,
+      }),
+    );
 
     const existingValues: ExistingValue[] = [];
     const rowsArray = Array.from(nicknameRows.entries());
@@ -272,13 +596,15 @@ async function initSheetsClient(): Promise<SheetsClient> {
   }
 
   /**
-   * Write zeros to specified column for given nickname rows
+   * Write zeros (or charge amounts) to specified column for given nickname rows
    * @param overrideExisting - if false, skip cells that already have values
+   * @param amounts - optional per-nickname values to write instead of zeros
    */
   async function writeZeros(
     nicknameRows: Map<string, number>,
     column: string,
     overrideExisting: boolean = true,
+    amounts?: Map<string, number>,
   ): Promise<{ updated: number; notFound: string[] }> {
     if (nicknameRows.size === 0) {
       return { updated: 0, notFound: [] };
@@ -308,22 +634,16 @@ async function initSheetsClient(): Promise<SheetsClient> {
     // Prepare batch update
     const updates: Array<{ range: string; values: (string | number)[][] }> = [];
 
-    rowsToUpdate.forEach((row, _nickname) => {
-      const range = `'${SHEET_NAME}'!${column}${row}`;
+    rowsToUpdate.forEach((row, nickname) => {
+      const range = `'${layout.sheetName}'!${column}${row}`;
       updates.push({
         range,
-        values: [[0]], // Use number 0, not string '0'
+        values: [[amounts?.get(nickname) ?? 0]], // Share/debit amount or 0, written as a number
       });
     });
 
-    // Batch write all zeros
-    await sheets.spreadsheets.values.batchUpdate({
-      spreadsheetId: SPREADSHEET_ID,
-      requestBody: {
-        valueInputOption: 'RAW',
-        data: updates,
-      },
-    });
+    // Batch write all attendee cells
+    await writeWithSnapshot(updates);
 
     const updated = rowsToUpdate.size;
     const notFound: string[] = [];
@@ -332,49 +652,106 @@ async function initSheetsClient(): Promise<SheetsClient> {
   }
 
   /**
-   * Find the last date column by scanning row 1 from column F until empty cell
-   * Returns column letter and date value, or null if no date columns found
+   * Get the tab's column count (real grid width, may go beyond ZZ)
    */
-  async function findLastDateColumn(): Promise<{
-    column: string;
-    date: string;
-  } | null> {
-    // Start from column F and read row 1 until we find an empty cell
-    const _currentColumn = SHEET_DATA_FIRST_COLUMN;
-    let lastDateColumn: { column: string; date: string } | null = null;
-
-    // Read a large range to find the last non-empty cell
-    // Read row 1 from column F to column ZZ (max reasonable range)
-    const range = `'${SHEET_NAME}'!${SHEET_DATA_FIRST_COLUMN}${SHEET_DATE_ROW}:ZZ${SHEET_DATE_ROW}`;
-    const response = await sheets.spreadsheets.values.get({
-      spreadsheetId: SPREADSHEET_ID,
-      range,
+  async function getGridColumnCount(): Promise<number> {
+    const cacheKey = `${spreadsheetId}|grid:${layout.sheetName}`;
+    const cached = readCache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return Number(cached.values[0][0]);
+    }
+
+    const response = await call(() =>
+      sheets.spreadsheets.get({
+        spreadsheetId,
+        fields: 'sheets.properties(title,gridProperties.columnCount)',
+      }),
+    );
+    const properties = response.data.sheets?.find(
+      (sheet) => sheet.properties?.title === layout.sheetName,
+    )?.properties;
+    if (!properties) {
+      throw new Error(`Tab "${layout.sheetName}" not found`);
+    }
+    const columnCount = properties.gridProperties?.columnCount ?? 26;
+    readCache.set(cacheKey, {
+      expiresAt: Date.now() + SHEETS_CACHE_TTL_MS,
+      values: [[columnCount]],
     });
+    return columnCount;
+  }
 
-    const values = response.data.values?.[0] || [];
-
-    // Find the last non-empty cell until there is an empty cell
-    for (let i = 0; i < values.length; i++) {
-      const value = values[i];
-      const prevIndex = i - 1;
-      const prevValue = values[prevIndex];
-      if (value == null || value === undefined || String(value).trim() === '') {
-        const columnIndex =
-          columnLetterToIndex(SHEET_DATA_FIRST_COLUMN) + prevIndex;
-        const columnLetter = indexToColumnLetter(columnIndex);
-        lastDateColumn = {
-          column: columnLetter,
-          date: String(prevValue).trim(),
-        };
-        break;
+  /**
+   * Read the whole header row (row 1 up to the grid width)
+   * Returns displayed and raw values (dates as serial numbers), indexed from column A
+   */
+  async function readHeaderRow(): Promise<{
+    values: unknown[];
+    rawValues: unknown[];
+  }> {
+    const lastColumn = indexToColumnLetter((await getGridColumnCount()) - 1);
+    const range = `'${layout.sheetName}'!A${layout.dateRow}:${lastColumn}${layout.dateRow}`;
+    const [[rows], [rawRows]] = await Promise.all([
+      readCachedRanges([range]),
+      readCachedRanges([range], true),
+    ]);
+    return { values: rows[0] || [], rawValues: rawRows[0] || [] };
+  }
+
+  /**
+   * Build the header model: game columns from the first date column to the
+   * end of the grid, left to right
+   * Blank headers and excluded ("Баланс ...") columns are skipped; gaps do not
+   * end the scan
+   */
+  async function getDateColumns(): Promise<HeaderColumn[]> {
+    const { values, rawValues } = await readHeaderRow();
+    const firstIndex = columnLetterToIndex(layout.dataFirstColumn);
+    const dateColumns: HeaderColumn[] = [];
+
+    for (let index = firstIndex; index < values.length; index++) {
+      const header = String(values[index] ?? '').trim();
+      if (header === '' || balanceColumnRegex.test(header)) {
+        continue;
       }
+      const rawValue = rawValues[index];
+      dateColumns.push({
+        column: indexToColumnLetter(index),
+        index,
+        header,
+        date:
+          typeof rawValue === 'number'
+            ? parseDateSerial(rawValue)
+            : parseDayMonth(header),
+      });
     }
 
-    return lastDateColumn;
+    return dateColumns;
+  }
+
+  /**
+   * Find the last date column: the rightmost game column whose header is a
+   * date (or the rightmost game column if no header parses as a date)
+   * Returns column letter and header text, or null if no date columns found
+   */
+  async function findLastDateColumn(): Promise<{
+    column: string;
+    date: string;
+  } | null> {
+    const dateColumns = await getDateColumns();
+    const lastColumn =
+      dateColumns.findLast((column) => column.date !== null) ??
+      dateColumns[dateColumns.length - 1];
+
+    return lastColumn
+      ? { column: lastColumn.column, date: lastColumn.header }
+      : null;
   }
 
   /**
    * Find column by searching for date text in row 1
+   * Dates ("13.12", "13 декабря", "saturday") match headers showing the same
+   * day in any format, including date-typed cells; other text is a substring match
    * Returns column letter and date if exactly one match found
    * Returns matches array if multiple found (sorted by column index descending)
    * Returns error info if 0 matches found
@@ -392,53 +769,24 @@ async function initSheetsClient(): Promise<SheetsClient> {
     if (!searchText) {
       return { success: false, error: 'not_found' };
     }
+    // Dates are compared as calendar days, anything else as text
+    const queryDates = parseDateQuery(searchText);
 
-    // Read row 1 from column F to column ZZ
-    const range = `'${SHEET_NAME}'!${SHEET_DATA_FIRST_COLUMN}${SHEET_DATE_ROW}:ZZ${SHEET_DATE_ROW}`;
-    const response = await sheets.spreadsheets.values.get({
-      spreadsheetId: SPREADSHEET_ID,
-      range,
-    });
-
-    const values = response.data.values?.[0] || [];
-    const matches: Array<{ column: string; date: string }> = [];
-
-    // Search through all cells in row 1
-    for (let i = 0; i < values.length; i++) {
-      const value = values[i];
-      if (
-        value !== null &&
-        value !== undefined &&
-        String(value).trim() !== ''
-      ) {
-        const cellValue = String(value).trim();
-        // Skip columns that match exclude pattern
-        if (SHEET_EXCLUDE_COLUMN_PATTERN.test(cellValue)) {
-          continue;
-        }
-        // Case-insensitive partial match
-        if (cellValue.toLowerCase().includes(searchText)) {
-          const columnIndex = columnLetterToIndex(SHEET_DATA_FIRST_COLUMN) + i;
-          const columnLetter = indexToColumnLetter(columnIndex);
-          matches.push({
-            column: columnLetter,
-            date: cellValue,
-          });
-        }
-      }
-    }
+    const matches = (await getDateColumns())
+      .filter(({ header, date }) =>
+        queryDates.length > 0
+          ? date !== null && queryDates.some((query) => isSameDay(query, date))
+          : header.toLowerCase().includes(searchText),
+      )
+      // Biggest column first
+      .reverse()
+      .map(({ column, header }) => ({ column, date: header }));
 
     if (matches.length === 0) {
       return { success: false, error: 'not_found' };
     }
 
     if (matches.length > 1) {
-      // Sort by column index descending (biggest ID first)
-      matches.sort((a, b) => {
-        const indexA = columnLetterToIndex(a.column);
-        const indexB = columnLetterToIndex(b.column);
-        return indexB - indexA; // Descending order
-      });
       return {
         success: true,
         multiple: true,
@@ -457,11 +805,13 @@ async function initSheetsClient(): Promise<SheetsClient> {
    * Get metadata for a column (date, cost, player count from rows 1-3)
    */
   async function getColumnMetadata(column: string): Promise<ColumnMetadata> {
-    const range = `'${SHEET_NAME}'!${column}${SHEET_DATE_ROW}:${column}${SHEET_PLAYER_COUNT_ROW}`;
-    const response = await sheets.spreadsheets.values.get({
-      spreadsheetId: SPREADSHEET_ID,
-      range,
-    });
+    const range = `'${layout.sheetName}'!${column}${layout.dateRow}:${column}${layout.playerCountRow}`;
+    const response = await call(() =>
+      sheets.spreadsheets.values.get({
+        spreadsheetId,
+        range,
+      }),
+    );
 
     const rows = response.data.values || [];
     const metadata: ColumnMetadata = {};
@@ -526,54 +876,764 @@ async function initSheetsClient(): Promise<SheetsClient> {
 
     if (date !== undefined) {
       updates.push({
-        range: `'${SHEET_NAME}'!${column}${SHEET_DATE_ROW}`,
+        range: `'${layout.sheetName}'!${column}${layout.dateRow}`,
         values: [[date]],
       });
     }
 
     if (cost !== undefined) {
       updates.push({
-        range: `'${SHEET_NAME}'!${column}${SHEET_COST_ROW}`,
+        range: `'${layout.sheetName}'!${column}${layout.costRow}`,
         values: [[cost]],
       });
     }
 
     if (playerCount !== undefined) {
       updates.push({
-        range: `'${SHEET_NAME}'!${column}${SHEET_PLAYER_COUNT_ROW}`,
+        range: `'${layout.sheetName}'!${column}${layout.playerCountRow}`,
         values: [[playerCount]],
       });
     }
 
     if (updates.length > 0) {
-      await sheets.spreadsheets.values.batchUpdate({
-        spreadsheetId: SPREADSHEET_ID,
-        requestBody: {
+      await writeWithSnapshot(updates);
+    }
+  }
+
+  /**
+   * Find balance columns ("Баланс ..." headers in row 1), left to right
+   */
+  async function findBalanceColumns(): Promise<BalanceColumn[]> {
+    const { values } = await readHeaderRow();
+    const balanceColumns: BalanceColumn[] = [];
+
+    values.forEach((value, index) => {
+      const header = String(value ?? '').trim();
+      if (balanceColumnRegex.test(header)) {
+        balanceColumns.push({ column: indexToColumnLetter(index), header });
+      }
+    });
+
+    return balanceColumns;
+  }
+
+  /**
+   * Read cell values in specified column for given nickname rows
+   * Returns a map of nickname -> value (empty cells are omitted)
+   */
+  async function readCellValues(
+    nicknameRows: Map<string, number>,
+    column: string,
+  ): Promise<Map<string, string | number>> {
+    const existingValues = await checkExistingValues(nicknameRows, column);
+    return new Map(existingValues.map((ev) => [ev.nickname, ev.value]));
+  }
+
+  /**
+   * Read every nickname in the nickname column
+   * Returns a map of "@nickname" -> row number
+   */
+  async function findAllNicknameRows(): Promise<Map<string, number>> {
+    const range = `'${layout.sheetName}'!${layout.nicknameColumn}${layout.dataFirstRow}:${layout.nicknameColumn}`;
+    const [rows] = await readCachedRanges([range]);
+    const nicknameToRow = new Map<string, number>();
+    rows.forEach((row, index) => {
+      const nickname = String(row[0] ?? '').trim();
+      if (nickname) {
+        nicknameToRow.set(
+          `@${nickname.replace(/^@/, '')}`,
+          layout.dataFirstRow + index,
+        );
+      }
+    });
+
+    return nicknameToRow;
+  }
+
+  /**
+   * Read numeric values of a column from the first data row down
+   * Returns a map of row number -> value (empty and non-numeric cells are omitted)
+   */
+  async function readColumnNumbers(
+    column: string,
+  ): Promise<Map<number, number>> {
+    const range = `'${layout.sheetName}'!${column}${layout.dataFirstRow}:${column}`;
+    const response = await call(() =>
+      sheets.spreadsheets.values.get({
+        spreadsheetId,
+        range,
+        valueRenderOption: 'UNFORMATTED_VALUE',
+      }),
+    );
+
+    const rowValues = new Map<number, number>();
+    (response.data.values || []).forEach((row, index) => {
+      const value = row[0];
+      if (value === null || value === undefined || value === '') return;
+      const num = typeof value === 'number' ? value : parseFloat(String(value));
+      if (!Number.isNaN(num)) {
+        rowValues.set(layout.dataFirstRow + index, num);
+      }
+    });
+
+    return rowValues;
+  }
+
+  /**
+   * Add an amount to a payment column cell and return the new total
+   * @throws Error if the cell holds a formula (it would be replaced by a constant)
+   */
+  async function addToPaymentCell(
+    range: string,
+    amount: number,
+  ): Promise<number> {
+    const [currentValue] = await readCellFormulas([range]);
+    if (typeof currentValue === 'string' && currentValue.startsWith('=')) {
+      throw new Error(
+        `${range} contains a formula; record payments in the payments tab instead (unset SHEET_PAYMENT_COLUMN)`,
+      );
+    }
+    const current =
+      typeof currentValue === 'number'
+        ? currentValue
+        : parseFloat(String(currentValue));
+    const total = (Number.isNaN(current) ? 0 : current) + amount;
+
+    await call(() =>
+      sheets.spreadsheets.values.update({
+        spreadsheetId,
+        range,
+        valueInputOption: 'RAW',
+        requestBody: { values: [[total]] },
+      }),
+    );
+    invalidateCache();
+    return total;
+  }
+
+  /**
+   * Record a payment: append it to the payments tab, or add the amount to
+   * the layout's payment column in the player's row when that column is configured
+   * Returns a short description of where the payment was written
+   */
+  async function recordPayment(entry: PaymentEntry): Promise<string> {
+    if (layout.paymentColumn !== '') {
+      const range = `'${layout.sheetName}'!${layout.paymentColumn}${entry.row}`;
+
+      // Read-modify-write: payments to the same cell run one after another
+      const key = `${spreadsheetId}|${range}`;
+      const update = (paymentCellQueue.get(key) ?? Promise.resolve())
+        .catch(() => undefined)
+        .then(() => addToPaymentCell(range, entry.amount));
+      paymentCellQueue.set(key, update);
+      try {
+        const total = await update;
+        return `cell ${layout.paymentColumn}${entry.row} (total ${total})`;
+      } finally {
+        if (paymentCellQueue.get(key) === update) {
+          paymentCellQueue.delete(key);
+        }
+      }
+    }
+
+    // Append is not idempotent: only retry when Google rejected the request (429)
+    await call(
+      () =>
+        sheets.spreadsheets.values.append({
+          spreadsheetId,
+          range: `'${layout.paymentsSheetName}'!A:E`,
           valueInputOption: 'RAW',
-          data: updates,
+          insertDataOption: 'INSERT_ROWS',
+          requestBody: {
+            values: [
+              [
+                entry.date,
+                entry.nickname,
+                entry.amount,
+                entry.recordedBy,
+                entry.note,
+              ],
+            ],
+          },
+        }),
+      false,
+    );
+    invalidateCache();
+    return `tab "${layout.paymentsSheetName}"`;
+  }
+
+  /**
+   * List worksheets (tabs) of the spreadsheet in tab bar order
+   */
+  async function listWorksheets(): Promise<Worksheet[]> {
+    const response = await call(() =>
+      sheets.spreadsheets.get({
+        spreadsheetId,
+        fields: 'sheets.properties(sheetId,title,index)',
+      }),
+    );
+
+    return (response.data.sheets || [])
+      .map((sheet) => ({
+        sheetId: sheet.properties?.sheetId ?? 0,
+        title: sheet.properties?.title ?? '',
+        index: sheet.properties?.index ?? 0,
+      }))
+      .sort((a, b) => a.index - b.index);
+  }
+
+  /**
+   * Create a new tab at the end of the tab bar with the current tab's
+   * header rows (left of the first date column) and roster column copied
+   */
+  async function createSeasonTab(title: string): Promise<void> {
+    const response = await call(() =>
+      sheets.spreadsheets.get({
+        spreadsheetId,
+        fields: 'sheets.properties(sheetId,title,gridProperties)',
+      }),
+    );
+    const source = response.data.sheets?.find(
+      (sheet) => sheet.properties?.title === layout.sheetName,
+    )?.properties;
+    if (source?.sheetId === undefined || source.sheetId === null) {
+      throw new Error(`Tab "${layout.sheetName}" not found`);
+    }
+    const sourceId = source.sheetId;
+    const rowCount = source.gridProperties?.rowCount ?? layout.dataFirstRow;
+
+    const addResponse = await call(() =>
+      sheets.spreadsheets.batchUpdate({
+        spreadsheetId,
+        requestBody: {
+          requests: [
+            {
+              addSheet: {
+                properties: {
+                  title,
+                  gridProperties: {
+                    rowCount,
+                    columnCount: source.gridProperties?.columnCount ?? 26,
+                  },
+                },
+              },
+            },
+          ],
         },
+      }),
+    );
+    const targetId =
+      addResponse.data.replies?.[0]?.addSheet?.properties?.sheetId;
+    if (targetId === undefined || targetId === null) {
+      throw new Error(`Tab "${title}" was not created`);
+    }
+
+    // Header rows (rows above the data) left of the first date column
+    const copyRanges = [
+      {
+        startRowIndex: 0,
+        endRowIndex: layout.dataFirstRow - 1,
+        startColumnIndex: 0,
+        endColumnIndex: columnLetterToIndex(layout.dataFirstColumn),
+      },
+    ];
+    // Roster (and user id) columns from the first data row down
+    for (const column of [layout.nicknameColumn, layout.userIdColumn]) {
+      if (column === '') continue;
+      copyRanges.push({
+        startRowIndex: layout.dataFirstRow - 1,
+        endRowIndex: rowCount,
+        startColumnIndex: columnLetterToIndex(column),
+        endColumnIndex: columnLetterToIndex(column) + 1,
       });
     }
+
+    await call(() =>
+      sheets.spreadsheets.batchUpdate({
+        spreadsheetId,
+        requestBody: {
+          requests: copyRanges.map((range) => ({
+            copyPaste: {
+              source: { sheetId: sourceId, ...range },
+              destination: { sheetId: targetId, ...range },
+              pasteType: 'PASTE_NORMAL',
+            },
+          })),
+        },
+      }),
+    );
+    invalidateCache();
+  }
+
+  /**
+   * Pick where a new game column with the given header belongs: right after
+   * the last game column dated on or before it (after the last game column
+   * if the header is not a date)
+   * @returns column letter the new column will get, and the game column it follows
+   */
+  async function planGameColumn(
+    header: string,
+  ): Promise<{ column: string; after: string | null }> {
+    const dateColumns = await getDateColumns();
+    if (dateColumns.length === 0) {
+      return { column: layout.dataFirstColumn, after: null };
+    }
+
+    let previous = dateColumns[dateColumns.length - 1];
+    const newDate = parseDayMonth(header);
+    const dayNumbers = toDayNumbers(dateColumns.map((column) => column.date));
+    const lastDay = dayNumbers.findLast((day) => day !== null);
+    if (newDate && lastDay !== undefined && lastDay !== null) {
+      const newDay = nearestDayNumber(newDate, lastDay);
+      const index = dayNumbers.findLastIndex(
+        (day) => day !== null && day <= newDay,
+      );
+      if (index === -1) {
+        // Earlier than every game: goes in front of the first dated column
+        const first = dateColumns[dayNumbers.findIndex((day) => day !== null)];
+        return { column: first.column, after: null };
+      }
+      previous = dateColumns[index];
+    }
+
+    return {
+      column: indexToColumnLetter(previous.index + 1),
+      after: previous.column,
+    };
+  }
+
+  /**
+   * Insert an empty game column at the given letter (existing columns shift right)
+   * Formats, data validation and formula cells are copied from the neighbouring
+   * game column, and balance formulas are extended to cover the new column
+   */
+  async function insertGameColumn(column: string): Promise<void> {
+    const insertIndex = columnLetterToIndex(column);
+    const dateColumns = await getDateColumns();
+    const source =
+      dateColumns.findLast((dateColumn) => dateColumn.index < insertIndex) ??
+      dateColumns.find((dateColumn) => dateColumn.index >= insertIndex);
+
+    const worksheet = (await listWorksheets()).find(
+      (sheet) => sheet.title === layout.sheetName,
+    );
+    if (!worksheet) {
+      throw new Error(`Tab "${layout.sheetName}" not found`);
+    }
+    const { sheetId } = worksheet;
+
+    const requests: sheets_v4.Schema$Request[] = [
+      {
+        insertDimension: {
+          range: {
+            sheetId,
+            dimension: 'COLUMNS',
+            startIndex: insertIndex,
+            endIndex: insertIndex + 1,
+          },
+          inheritFromBefore: insertIndex > 0,
+        },
+      },
+    ];
+
+    if (source) {
+      // Formula cells of the source column (read before the insert shifts it)
+      const response = await call(() =>
+        sheets.spreadsheets.values.get({
+          spreadsheetId,
+          range: `'${layout.sheetName}'!${source.column}:${source.column}`,
+          valueRenderOption: 'FORMULA',
+        }),
+      );
+      const formulaRows: number[] = [];
+      (response.data.values || []).forEach((row, index) => {
+        const value = row[0];
+        if (typeof value === 'string' && value.startsWith('=')) {
+          formulaRows.push(index);
+        }
+      });
+
+      const sourceIndex =
+        source.index >= insertIndex ? source.index + 1 : source.index;
+      const sourceRange = {
+        sheetId,
+        startColumnIndex: sourceIndex,
+        endColumnIndex: sourceIndex + 1,
+      };
+      const targetRange = {
+        sheetId,
+        startColumnIndex: insertIndex,
+        endColumnIndex: insertIndex + 1,
+      };
+      for (const pasteType of ['PASTE_FORMAT', 'PASTE_DATA_VALIDATION']) {
+        requests.push({
+          copyPaste: {
+            source: sourceRange,
+            destination: targetRange,
+            pasteType,
+          },
+        });
+      }
+      for (const row of formulaRows) {
+        const byRow = { startRowIndex: row, endRowIndex: row + 1 };
+        requests.push({
+          copyPaste: {
+            source: { ...sourceRange, ...byRow },
+            destination: { ...targetRange, ...byRow },
+            pasteType: 'PASTE_FORMULA',
+          },
+        });
+      }
+    }
+
+    // Inserting is not idempotent: only retry when Google rejected the request (429)
+    await call(
+      () =>
+        sheets.spreadsheets.batchUpdate({
+          spreadsheetId,
+          requestBody: { requests },
+        }),
+      false,
+    );
+    invalidateCache();
+    options.onShift?.(layout.sheetName, 'COLUMNS', insertIndex, 1);
+
+    const extended = await extendBalanceRanges(
+      insertIndex,
+      source !== undefined && source.index >= insertIndex,
+    );
+    console.log(
+      `[SHEET COLUMN INSERTED] Tab: ${layout.sheetName}, Column: ${column}, Source: ${source?.column ?? 'none'}, Balance formulas extended: ${extended}`,
+    );
+  }
+
+  /**
+   * Delete a game column inserted by insertGameColumn (used when the update fails)
+   * Sheets shrinks formula ranges that included it on its own
+   */
+  async function deleteGameColumn(column: string): Promise<void> {
+    const deleteIndex = columnLetterToIndex(column);
+    const worksheet = (await listWorksheets()).find(
+      (sheet) => sheet.title === layout.sheetName,
+    );
+    if (!worksheet) {
+      throw new Error(`Tab "${layout.sheetName}" not found`);
+    }
+
+    // Deleting is not idempotent: only retry when Google rejected the request (429)
+    await call(
+      () =>
+        sheets.spreadsheets.batchUpdate({
+          spreadsheetId,
+          requestBody: {
+            requests: [
+              {
+                deleteDimension: {
+                  range: {
+                    sheetId: worksheet.sheetId,
+                    dimension: 'COLUMNS',
+                    startIndex: deleteIndex,
+                    endIndex: deleteIndex + 1,
+                  },
+                },
+              },
+            ],
+          },
+        }),
+      false,
+    );
+    invalidateCache();
+    options.onShift?.(layout.sheetName, 'COLUMNS', deleteIndex, -1);
+    console.log(
+      `[SHEET COLUMN DELETED] Tab: ${layout.sheetName}, Column: ${column}`,
+    );
+  }
+
+  /**
+   * Extend ranges in balance column formulas to an inserted column
+   * Sheets only grows a range when a column is inserted inside it, so ranges
+   * ending right before the new column (or, for a column inserted before the
+   * first game, starting right after it) are adjusted here
+   * @returns number of updated formula cells
+   */
+  async function extendBalanceRanges(
+    insertIndex: number,
+    insertedFirst: boolean,
+  ): Promise<number> {
+    const inserted = indexToColumnLetter(insertIndex);
+    const pattern = insertedFirst
+      ? new RegExp(
+          `(\\$?)${indexToColumnLetter(insertIndex + 1)}(\\$?\\d+:\\$?[A-Z]{1,3}\\$?\\d+)`,
+          'g',
+        )
+      : insertIndex > 0
+        ? new RegExp(
+            `(\\$?[A-Z]{1,3}\\$?\\d+:\\$?)${indexToColumnLetter(insertIndex - 1)}(\\$?\\d+)`,
+            'g',
+          )
+        : null;
+    if (!pattern) return 0;
+
+    const balanceColumns = await findBalanceColumns();
+    if (balanceColumns.length === 0) return 0;
+
+    const ranges = balanceColumns.map(
+      ({ column }) => `'${layout.sheetName}'!${column}:${column}`,
+    );
+    const response = await call(() =>
+      sheets.spreadsheets.values.batchGet({
+        spreadsheetId,
+        ranges,
+        valueRenderOption: 'FORMULA',
+      }),
+    );
+
+    const updates: Array<{ range: string; values: string[][] }> = [];
+    balanceColumns.forEach(({ column }, columnIndex) => {
+      const values = response.data.valueRanges?.[columnIndex]?.values || [];
+      values.forEach((row, rowIndex) => {
+        const formula = row[0];
+        if (typeof formula !== 'string' || !formula.startsWith('=')) return;
+        // A preceding letter means a different column (e.g. "AK7" is not "K7")
+        const updated = formula.replace(
+          pattern,
+          (match, left, right, offset) =>
+            /[A-Z]/.test(formula[offset - 1] ?? '')
+              ? match
+              : `${left}${inserted}${right}`,
+        );
+        if (updated !== formula) {
+          updates.push({
+            range: `'${layout.sheetName}'!${column}${rowIndex + 1}`,
+            values: [[updated]],
+          });
+        }
+      });
+    });
+
+    if (updates.length > 0) {
+      await call(() =>
+        sheets.spreadsheets.values.batchUpdate({
+          spreadsheetId,
+          requestBody: { valueInputOption: 'USER_ENTERED', data: updates },
+        }),
+      );
+      invalidateCache();
+    }
+    return updates.length;
+  }
+
+  /**
+   * Extend formula ranges ending at the last roster row to rows added below it
+   * Sheets only grows a range when rows are inserted inside it, so totals and
+   * balance ranges like F7:F30 are adjusted here; ranges within one row and
+   * formulas of the added rows themselves are left as they are
+   * @returns number of updated formula cells
+   */
+  async function extendRosterRanges(
+    lastRow: number,
+    addedRows: number,
+  ): Promise<number> {
+    const response = await call(() =>
+      sheets.spreadsheets.values.get({
+        spreadsheetId,
+        range: `'${layout.sheetName}'`,
+        valueRenderOption: 'FORMULA',
+      }),
+    );
+
+    const pattern = /(\$?[A-Z]{1,3}\$?(\d+):\$?[A-Z]{1,3}\$?)(\d+)(?!\d)/g;
+    const newLastRow = lastRow + addedRows;
+    const updates: Array<{ range: string; values: string[][] }> = [];
+    (response.data.values || []).forEach((row, rowIndex) => {
+      const rowNumber = rowIndex + 1;
+      if (rowNumber > lastRow && rowNumber <= newLastRow) return;
+      row.forEach((formula, columnIndex) => {
+        if (typeof formula !== 'string' || !formula.startsWith('=')) return;
+        // A preceding letter or "!" means a different column or another tab
+        const updated = formula.replace(
+          pattern,
+          (match, left, start, end, offset) =>
+            Number(end) !== lastRow ||
+            Number(start) >= lastRow ||
+            /[A-Z!]/.test(formula[offset - 1] ?? '')
+              ? match
+              : `${left}${newLastRow}`,
+        );
+        if (updated !== formula) {
+          updates.push({
+            range: `'${layout.sheetName}'!${indexToColumnLetter(columnIndex)}${rowNumber}`,
+            values: [[updated]],
+          });
+        }
+      });
+    });
+
+    if (updates.length > 0) {
+      await call(() =>
+        sheets.spreadsheets.values.batchUpdate({
+          spreadsheetId,
+          requestBody: { valueInputOption: 'USER_ENTERED', data: updates },
+        }),
+      );
+      invalidateCache();
+    }
+    return updates.length;
+  }
+
+  /**
+   * Add nicknames as new rows below the last roster row
+   * New rows copy formatting and formulas of the last roster row; the
+   * nickname cells are recorded for /undo, the rows themselves stay
+   * Returns a map of nickname -> new row number
+   */
+  async function appendRosterRows(
+    nicknames: string[],
+  ): Promise<Map<string, number>> {
+    const newRows = new Map<string, number>();
+    if (nicknames.length === 0) {
+      return newRows;
+    }
+
+    invalidateCache();
+    const rosterRows = Array.from((await findAllNicknameRows()).values());
+    const lastRow =
+      rosterRows.length > 0 ? Math.max(...rosterRows) : layout.dataFirstRow - 1;
+
+    if (rosterRows.length > 0) {
+      const worksheet = (await listWorksheets()).find(
+        (sheet) => sheet.title === layout.sheetName,
+      );
+      if (!worksheet) {
+        throw new Error(`Tab "${layout.sheetName}" not found`);
+      }
+
+      // Formula columns of the last roster row (copied so references shift)
+      const response = await call(() =>
+        sheets.spreadsheets.values.get({
+          spreadsheetId,
+          range: `'${layout.sheetName}'!${lastRow}:${lastRow}`,
+          valueRenderOption: 'FORMULA',
+        }),
+      );
+      const formulaColumns: number[] = [];
+      (response.data.values?.[0] || []).forEach((value, index) => {
+        if (typeof value === 'string' && value.startsWith('=')) {
+          formulaColumns.push(index);
+        }
+      });
+
+      const source = {
+        sheetId: worksheet.sheetId,
+        startRowIndex: lastRow - 1,
+        endRowIndex: lastRow,
+      };
+      const destination = {
+        sheetId: worksheet.sheetId,
+        startRowIndex: lastRow,
+        endRowIndex: lastRow + nicknames.length,
+      };
+      const byColumn = (index: number) => ({
+        startColumnIndex: index,
+        endColumnIndex: index + 1,
+      });
+
+      // Inserting rows is not idempotent: only retry when Google rejected the request (429)
+      await call(
+        () =>
+          sheets.spreadsheets.batchUpdate({
+            spreadsheetId,
+            requestBody: {
+              requests: [
+                {
+                  insertDimension: {
+                    range: {
+                      sheetId: worksheet.sheetId,
+                      dimension: 'ROWS',
+                      startIndex: lastRow,
+                      endIndex: lastRow + nicknames.length,
+                    },
+                    inheritFromBefore: true,
+                  },
+                },
+                {
+                  copyPaste: {
+                    source,
+                    destination,
+                    pasteType: 'PASTE_FORMAT',
+                  },
+                },
+                ...formulaColumns.map((index) => ({
+                  copyPaste: {
+                    source: { ...source, ...byColumn(index) },
+                    destination: { ...destination, ...byColumn(index) },
+                    pasteType: 'PASTE_FORMULA',
+                  },
+                })),
+              ],
+            },
+          }),
+        false,
+      );
+      options.onShift?.(layout.sheetName, 'ROWS', lastRow, nicknames.length);
+
+      const extended = await extendRosterRanges(lastRow, nicknames.length);
+      console.log(
+        `[SHEET ROWS INSERTED] Tab: ${layout.sheetName}, Rows: ${lastRow + 1}-${lastRow + nicknames.length}, Formula ranges extended: ${extended}`,
+      );
+    }
+
+    nicknames.forEach((nickname, index) => {
+      newRows.set(nickname, lastRow + 1 + index);
+    });
+    await writeWithSnapshot(
+      Array.from(newRows.entries()).map(([nickname, row]) => ({
+        range: `'${layout.sheetName}'!${layout.nicknameColumn}${row}`,
+        values: [[nickname]],
+      })),
+    );
+
+    return newRows;
   }
 
   return {
     findNicknameRows,
     checkExistingValues,
     writeZeros,
+    getDateColumns,
     findLastDateColumn,
     findColumnByDateText,
     getColumnMetadata,
     writeColumnMetadata,
+    findBalanceColumns,
+    readCellValues,
+    findAllNicknameRows,
+    readColumnNumbers,
+    recordPayment,
+    listWorksheets,
+    createSeasonTab,
+    appendRosterRows,
+    planGameColumn,
+    insertGameColumn,
+    deleteGameColumn,
+    invalidateCache,
+    readCellFormulas,
+    restoreCells,
   };
 }
 
 export {
   columnLetterToIndex,
-  getNextColumnLetter,
   indexToColumnLetter,
   initSheetsClient,
+  type BalanceColumn,
+  type CellChange,
   type ColumnMetadata,
   type ExistingValue,
-  type SheetsClient
+  type HeaderColumn,
+  type PaymentEntry,
+  type SheetBinding,
+  type SheetsClient,
+  type SheetsClientOptions,
+  type Worksheet,
 };
-
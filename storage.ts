@@ -0,0 +1,46 @@
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from 'node:fs';
+import { dirname, join } from 'node:path';
+
+// Directory for bot state files (polls, sessions, ...)
+const DATA_DIR = process.env.DATA_DIR || join(process.cwd(), 'data');
+
+/**
+ * Build absolute path for a file inside the data directory
+ */
+function dataFilePath(fileName: string): string {
+  return join(DATA_DIR, fileName);
+}
+
+/**
+ * Read JSON file, returning fallback if the file does not exist yet
+ */
+function readJsonFile<T>(path: string, fallback: T): T {
+  if (!existsSync(path)) {
+    return fallback;
+  }
+
+  try {
+    return JSON.parse(readFileSync(path, 'utf8')) as T;
+  } catch (error) {
+    console.error(`[STORAGE] Failed to read ${path}:`, error);
+    return fallback;
+  }
+}
+
+/**
+ * Write JSON file atomically (write to temp file, then rename)
+ */
+function writeJsonFile(path: string, data: unknown): void {
+  mkdirSync(dirname(path), { recursive: true });
+  const tempPath = `${path}.tmp`;
+  writeFileSync(tempPath, JSON.stringify(data, null, 2), 'utf8');
+  renameSync(tempPath, path);
+}
+
+export { DATA_DIR, dataFilePath, readJsonFile, writeJsonFile };
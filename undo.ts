@@ -0,0 +1,252 @@
+import type { Bot } from 'grammy';
+import { initChatSheetsClient } from './bindings';
+import { isChatAdmin } from './bot-helpers';
+import type { MyContext } from './session';
+import {
+  type CellChange,
+  columnLetterToIndex,
+  indexToColumnLetter,
+} from './sheets';
+import { dataFilePath, readJsonFile, writeJsonFile } from './storage';
+
+const UNDO_STORE_PATH =
+  process.env.UNDO_STORE_PATH || dataFilePath('undo.json');
+
+// Number of sheet operations kept per chat
+const UNDO_HISTORY_SIZE = Number(process.env.UNDO_HISTORY_SIZE || 10);
+
+// Max cells listed in /undo replies
+const MAX_LISTED_CELLS = 20;
+
+/**
+ * Cells written by one /update flow, with their previous contents
+ */
+interface SheetOperation {
+  groupId: string; // Writes with the same group id belong to one flow
+  spreadsheetId: string;
+  changes: CellChange[];
+  at: number;
+  by: string;
+}
+
+// Chat ID -> operations, oldest first
+const operations = new Map<string, SheetOperation[]>(
+  Object.entries(
+    readJsonFile<Record<string, SheetOperation[]>>(UNDO_STORE_PATH, {}),
+  ),
+);
+
+/**
+ * Save undo history to disk
+ */
+function saveOperations(): void {
+  try {
+    writeJsonFile(UNDO_STORE_PATH, Object.fromEntries(operations));
+  } catch (error) {
+    console.error('[UNDO] Failed to save undo history:', error);
+  }
+}
+
+/**
+ * Record cells written in a chat
+ * Writes of the same flow (group id) are merged, keeping each cell's earliest contents
+ */
+export function recordSheetChanges(
+  chatId: number,
+  groupId: string,
+  spreadsheetId: string,
+  by: string,
+  changes: CellChange[],
+): void {
+  const key = String(chatId);
+  const chatOperations = operations.get(key) ?? [];
+  let operation = chatOperations[chatOperations.length - 1];
+
+  if (
+    !operation ||
+    operation.groupId !== groupId ||
+    operation.spreadsheetId !== spreadsheetId
+  ) {
+    operation = { groupId, spreadsheetId, changes: [], at: Date.now(), by };
+    chatOperations.push(operation);
+  }
+
+  for (const change of changes) {
+    const existing = operation.changes.find((c) => c.range === change.range);
+    if (existing) {
+      existing.after = change.after;
+    } else {
+      operation.changes.push({ ...change });
+    }
+  }
+  operation.at = Date.now();
+
+  operations.set(key, chatOperations.slice(-UNDO_HISTORY_SIZE));
+  saveOperations();
+}
+
+/**
+ * Move recorded cells of a tab after columns or rows were inserted or deleted
+ * Cells at or after the insert shift with the sheet, so every chat's history
+ * for that spreadsheet and tab is updated to point at their new place;
+ * cells of deleted columns or rows are dropped
+ * @param count - number of inserted columns or rows, negative if deleted
+ */
+export function shiftUndoRanges(
+  spreadsheetId: string,
+  sheetName: string,
+  dimension: 'COLUMNS' | 'ROWS',
+  startIndex: number,
+  count: number,
+): void {
+  const prefix = `'${sheetName}'!`;
+  let shifted = 0;
+
+  operations.forEach((chatOperations, key) => {
+    for (const operation of chatOperations) {
+      if (operation.spreadsheetId !== spreadsheetId) continue;
+      operation.changes = operation.changes.filter((change) => {
+        if (!change.range.startsWith(prefix)) return true;
+        const cell = /^([A-Z]+)(\d+)$/.exec(change.range.slice(prefix.length));
+        if (!cell) return true;
+
+        const column = columnLetterToIndex(cell[1]);
+        const row = Number(cell[2]) - 1;
+        const index = dimension === 'COLUMNS' ? column : row;
+        if (index < startIndex) return true;
+
+        shifted++;
+        if (index < startIndex - count) return false;
+        change.range =
+          dimension === 'COLUMNS'
+            ? `${prefix}${indexToColumnLetter(column + count)}${row + 1}`
+            : `${prefix}${cell[1]}${row + count + 1}`;
+        return true;
+      });
+    }
+    operations.set(
+      key,
+      chatOperations.filter((operation) => operation.changes.length > 0),
+    );
+  });
+
+  if (shifted > 0) {
+    saveOperations();
+  }
+}
+
+/**
+ * Format cell contents for chat messages
+ */
+function formatCellValue(value: string | number): string {
+  return value === '' ? '(empty)' : String(value);
+}
+
+/**
+ * Format list of cell changes, limited to MAX_LISTED_CELLS lines
+ */
+function formatChanges(
+  changes: CellChange[],
+  format: (change: CellChange) => string,
+): string {
+  let text = changes
+    .slice(0, MAX_LISTED_CELLS)
+    .map((change) => `• ${change.range}: ${format(change)}`)
+    .join('\n');
+  if (changes.length > MAX_LISTED_CELLS) {
+    text += `\n… and ${changes.length - MAX_LISTED_CELLS} more`;
+  }
+  return text;
+}
+
+/**
+ * Register /undo command handler
+ */
+export function registerUndoCommand(bot: Bot<MyContext>): void {
+  /**
+   * Undo command handler - restore cells written by the last sheet update
+   * Allowed for the user who ran the update and chat admins
+   * Usage: /undo [force] (force restores even cells changed since the update)
+   */
+  bot.command('undo', async (ctx) => {
+    const force = ctx.match.trim().toLowerCase() === 'force';
+    const key = String(ctx.chat.id);
+    const chatOperations = operations.get(key) ?? [];
+    const operation = chatOperations[chatOperations.length - 1];
+
+    if (!operation) {
+      await ctx.reply('ℹ️ Nothing to undo in this chat.');
+      return;
+    }
+
+    const sender = ctx.from?.username ? `@${ctx.from.username}` : undefined;
+    if (sender !== operation.by && !(await isChatAdmin(ctx))) {
+      await ctx.reply(
+        `❌ Only ${operation.by} (who ran the update) or chat admins can undo it.`,
+      );
+      return;
+    }
+
+    try {
+      const sheetsClient = await initChatSheetsClient(ctx, {
+        spreadsheetId: operation.spreadsheetId,
+      });
+      const current = await sheetsClient.readCellFormulas(
+        operation.changes.map((change) => change.range),
+      );
+
+      const modified = operation.changes
+        .map((change, index) => ({ change, current: current[index] }))
+        .filter(
+          ({ change, current }) => String(current) !== String(change.after),
+        );
+
+      if (modified.length > 0 && !force) {
+        const currentByRange = new Map(
+          modified.map(({ change, current }) => [change.range, current]),
+        );
+        await ctx.reply(
+          `⚠️ ${modified.length} cell(s) changed since the update, so I did not undo anything:\n\n` +
+            formatChanges(
+              modified.map(({ change }) => change),
+              (change) =>
+                `written ${formatCellValue(change.after)}, now ${formatCellValue(currentByRange.get(change.range) ?? '')}`,
+            ) +
+            '\n\nUse /undo force to restore all cells anyway.',
+        );
+        return;
+      }
+
+      await sheetsClient.restoreCells(
+        operation.changes.map((change) => ({
+          range: change.range,
+          value: change.before,
+        })),
+      );
+
+      chatOperations.pop();
+      operations.set(key, chatOperations);
+      saveOperations();
+
+      console.log(
+        `[UNDO] Chat ID: ${ctx.chat.id}, Cells: ${operation.changes.length}, Forced: ${force && modified.length > 0}, User: @${ctx.from?.username || 'unknown'}`,
+      );
+      await ctx.reply(
+        `↩️ Reverted ${operation.changes.length} cell(s) written by ${operation.by} on ${new Date(operation.at).toLocaleString()}:\n\n` +
+          formatChanges(
+            operation.changes,
+            (change) =>
+              `${formatCellValue(change.after)} → ${formatCellValue(change.before)}`,
+          ) +
+          (chatOperations.length > 0
+            ? `\n\n${chatOperations.length} earlier update(s) can still be undone.`
+            : ''),
+      );
+    } catch (error) {
+      console.error('Error undoing sheet update:', error);
+      await ctx.reply(
+        `❌ Error undoing sheet update: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  });
+}
@@ -0,0 +1,128 @@
+import type { Bot } from 'grammy';
+import { getSheetBinding } from './bindings';
+import { isChatAdmin } from './bot-helpers';
+import type { MyContext } from './session';
+import { dataFilePath, readJsonFile, writeJsonFile } from './storage';
+
+const USER_LINKS_PATH =
+  process.env.USER_LINKS_PATH || dataFilePath('user-links.json');
+
+interface UserLinkStore {
+  users: Record<string, string>; // Telegram user id -> own username (from votes and /start)
+  sheets: Record<string, Record<string, string>>; // Spreadsheet ID -> user id -> nickname (/linkid)
+}
+
+const store = readJsonFile<UserLinkStore>(USER_LINKS_PATH, {
+  users: {},
+  sheets: {},
+});
+
+/**
+ * Save user links to disk
+ */
+function saveUserLinks(): void {
+  try {
+    writeJsonFile(USER_LINKS_PATH, store);
+  } catch (error) {
+    console.error('[USER LINKS] Failed to save user links:', error);
+  }
+}
+
+/**
+ * Get sheet nickname linked to a Telegram user id
+ * Links made with /linkid for the spreadsheet win over the user's own username
+ */
+export function getLinkedNickname(
+  spreadsheetId: string,
+  userId: number | string,
+): string | undefined {
+  const key = String(userId);
+  return store.sheets[spreadsheetId]?.[key] ?? store.users[key];
+}
+
+/**
+ * Find Telegram user id linked to a sheet nickname (case-insensitive)
+ * Links made with /linkid for the spreadsheet are checked first
+ */
+export function findLinkedUserId(
+  spreadsheetId: string,
+  nickname: string,
+): number | undefined {
+  const normalized = nickname.replace(/^@/, '').toLowerCase();
+  for (const links of [store.sheets[spreadsheetId] ?? {}, store.users]) {
+    for (const [userId, linked] of Object.entries(links)) {
+      if (linked.replace(/^@/, '').toLowerCase() === normalized) {
+        return Number(userId);
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Remember a Telegram user's own username (saved only if changed)
+ */
+export function linkUser(userId: number | string, nickname: string): void {
+  const key = String(userId);
+  if (store.users[key] === nickname) return;
+
+  store.users[key] = nickname;
+  saveUserLinks();
+}
+
+/**
+ * Link Telegram user id to a sheet nickname in a spreadsheet
+ */
+function linkSheetUser(
+  spreadsheetId: string,
+  userId: string,
+  nickname: string,
+): void {
+  store.sheets[spreadsheetId] = {
+    ...store.sheets[spreadsheetId],
+    [userId]: nickname,
+  };
+  saveUserLinks();
+}
+
+/**
+ * Register /linkid command handler
+ */
+export function registerLinkIdCommand(bot: Bot<MyContext>): void {
+  /**
+   * Link id command handler - map a voter without username to a sheet nickname
+   * Links belong to the chat's spreadsheet; only chat admins can add them
+   */
+  bot.command('linkid', async (ctx) => {
+    const match = /^(\d+)\s+@?(\S+)$/.exec(ctx.match.trim());
+    if (!match) {
+      await ctx.reply(
+        '❌ Usage: /linkid <telegram-user-id> @nickname\n\n' +
+          'Use it for voters without a Telegram username (their id is shown in the update result).',
+      );
+      return;
+    }
+
+    if (!(await isChatAdmin(ctx))) {
+      await ctx.reply('❌ Only chat admins can link user ids.');
+      return;
+    }
+
+    let spreadsheetId: string;
+    try {
+      ({ spreadsheetId } = getSheetBinding(ctx));
+    } catch (error) {
+      await ctx.reply(
+        `❌ ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+      return;
+    }
+
+    const nickname = `@${match[2]}`;
+    linkSheetUser(spreadsheetId, match[1], nickname);
+    console.log(
+      `[USER LINK] User ID: ${match[1]} -> ${nickname}, Spreadsheet: ${spreadsheetId}, Chat ID: ${ctx.chat.id}, User: @${ctx.from?.username || 'unknown'}`,
+    );
+    await ctx.reply(`✅ User ${match[1]} is now matched as ${nickname}.`);
+  });
+}
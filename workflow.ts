@@ -1,33 +1,58 @@
+import { suggestNickname } from './aliases';
+import { getSheetBinding, initChatSheetsClient } from './bindings';
 import {
   buildUpdateResultMessage,
+  buildYesNoKeyboard,
+  formatVoterToken,
   handleApiError,
   replyErrorAndReset,
 } from './bot-helpers';
+import { type ChargeResult, computeCharges, isChargeEnabled } from './charges';
 import {
+  ERR_CHARGES_DATA_MISSING,
+  ERR_SESSION_DATA_LOST,
   ERR_TARGET_COLUMN_NOT_SET,
-  SHEET_DATA_FIRST_COLUMN,
+  MSG_USE_UPDATE_AGAIN,
 } from './constants';
+import { getSheetLayout } from './layout';
+import { USER_ID_TOKEN_PREFIX } from './poll';
+import { pickSeasonTab } from './seasons';
 import type { MyContext } from './session';
 import { resetSession } from './session';
-import { getNextColumnLetter, initSheetsClient } from './sheets';
 
 /**
  * Start the column detection flow
  * Used by /update command and poll option selection
  */
-export async function startColumnDetectionFlow(ctx: MyContext): Promise<void> {
-  await ctx.reply('⏳ Detecting last date column...');
-
+export async function startColumnDetectionFlow(
+  ctx: MyContext,
+  requestedTab?: string,
+): Promise<void> {
   try {
-    const sheetsClient = await initSheetsClient();
+    if (requestedTab || !ctx.session.sheetName) {
+      ctx.session.sheetName = await pickSeasonTab(ctx, requestedTab);
+    }
+    await ctx.reply(
+      `⏳ Detecting last date column in tab "${ctx.session.sheetName}"...`,
+    );
+
+    const sheetsClient = await initChatSheetsClient(ctx);
     const lastDateColumn = await sheetsClient.findLastDateColumn();
 
     if (!lastDateColumn) {
+      const { dataFirstColumn } = getSheetLayout();
       await ctx.reply(
-        `❌ No date columns found. Create column ${SHEET_DATA_FIRST_COLUMN}? (yes/no)`,
+        `❌ No date columns found. Create column ${dataFirstColumn}? (yes/no)`,
+        {
+          reply_markup: buildYesNoKeyboard(
+            'awaiting_new_column_choice',
+            `➕ Create ${dataFirstColumn}`,
+            '❌ Cancel',
+          ),
+        },
       );
       ctx.session.state = 'awaiting_new_column_choice';
-      ctx.session.targetColumn = SHEET_DATA_FIRST_COLUMN;
+      ctx.session.targetColumn = dataFirstColumn;
       ctx.session.isNewColumn = true;
       return;
     }
@@ -36,13 +61,19 @@ export async function startColumnDetectionFlow(ctx: MyContext): Promise<void> {
     ctx.session.targetColumn = lastDateColumn.column;
     ctx.session.state = 'awaiting_column_confirmation';
 
-    const nextColumn = getNextColumnLetter(lastDateColumn.column);
     await ctx.reply(
       `📅 I detected column ${lastDateColumn.column} (${lastDateColumn.date}).\n\n` +
         `Update this column?\n` +
         `• yes - use column ${lastDateColumn.column}\n` +
-        `• no - create new column ${nextColumn}\n` +
+        `• no - insert a new column (placed by its date)\n` +
         `• or type a column letter (e.g., F) or date text to search`,
+      {
+        reply_markup: buildYesNoKeyboard(
+          'awaiting_column_confirmation',
+          `✅ Use ${lastDateColumn.column}`,
+          '➕ New column',
+        ),
+      },
     );
   } catch (error) {
     await handleApiError(ctx, error, 'detecting column');
@@ -63,12 +94,13 @@ export async function checkOverridesAndWrite(
     return;
   }
 
-  const sheetsClient = await initSheetsClient();
-
-  const existingValues = await sheetsClient.checkExistingValues(
-    nicknameRows,
-    column,
-  );
+  // A column inserted on write has no values yet
+  const existingValues = ctx.session.isNewColumn
+    ? []
+    : await (await initChatSheetsClient(ctx)).checkExistingValues(
+        nicknameRows,
+        column,
+      );
 
   if (existingValues.length > 0) {
     ctx.session.column = column;
@@ -78,14 +110,215 @@ export async function checkOverridesAndWrite(
 
     let message = `⚠️ These users already have values in column ${column}:\n\n`;
     existingValues.forEach((ev) => {
-      message += `• ${ev.nickname}: ${ev.value}\n`;
+      message += `• ${formatVoterToken(ev.nickname, ctx.session.voterNames)}: ${ev.value}\n`;
     });
     message += `\nOverwrite? (yes/no)`;
 
-    await ctx.reply(message);
+    await ctx.reply(message, {
+      reply_markup: buildYesNoKeyboard(
+        'awaiting_override_confirmation',
+        '✏️ Overwrite',
+        '⏭️ Keep existing',
+      ),
+    });
   } else {
-    await writeZerosAndRespond(ctx, nicknameRows, column, true, []);
+    await showWritePreview(ctx, nicknameRows, column, true);
+  }
+}
+
+/**
+ * Compute cost shares for attendees when CHARGE_MODE is enabled
+ * @returns charges, undefined if disabled, or null if cost/player count are missing
+ */
+function getSessionCharges(
+  ctx: MyContext,
+  nicknameRows: Map<string, number>,
+  skippedNicknames: string[],
+): ChargeResult | undefined | null {
+  if (!isChargeEnabled()) return undefined;
+
+  const { cost, playerCount } = ctx.session;
+  if (cost === undefined || !playerCount) return null;
+  return computeCharges(
+    cost,
+    playerCount,
+    [...nicknameRows.keys(), ...(ctx.session.newRosterNicknames ?? [])].filter(
+      (nickname) => !skippedNicknames.includes(nickname),
+    ),
+  );
+}
+
+/**
+ * Get nicknames whose existing values are kept (override declined)
+ */
+function getSkippedNicknames(
+  ctx: MyContext,
+  overrideExisting: boolean,
+): string[] {
+  return !overrideExisting && ctx.session.existingValuesEntries
+    ? ctx.session.existingValuesEntries.map((ev) => ev.nickname)
+    : [];
+}
+
+/**
+ * Show the exact cells that will be written and ask for confirmation
+ * With /update --dry-run the flow ends after the preview
+ */
+export async function showWritePreview(
+  ctx: MyContext,
+  nicknameRows: Map<string, number>,
+  column: string,
+  overrideExisting: boolean,
+): Promise<void> {
+  const skippedNicknames = getSkippedNicknames(ctx, overrideExisting);
+  const charges = getSessionCharges(ctx, nicknameRows, skippedNicknames);
+  if (charges === null) {
+    await replyErrorAndReset(ctx, ERR_CHARGES_DATA_MISSING);
+    return;
+  }
+
+  // A column inserted on write starts empty
+  const sheetsClient = await initChatSheetsClient(ctx);
+  const [oldValues, oldMetadata] = ctx.session.isNewColumn
+    ? [new Map<string, string | number>(), {}]
+    : await Promise.all([
+        sheetsClient.readCellValues(nicknameRows, column),
+        sheetsClient.getColumnMetadata(column),
+      ]);
+
+  const layout = getSheetLayout();
+  const tab = getSheetBinding(ctx).sheetName ?? layout.sheetName;
+  const pending = ctx.session.pendingMetadata ?? {};
+  const skipped = new Set(skippedNicknames);
+  const formatValue = (value: string | number | undefined) =>
+    value === undefined ? '(empty)' : String(value);
+
+  let message = `🔍 Preview: tab "${tab}", ${ctx.session.isNewColumn ? 'new column' : 'column'} ${column}\n\n`;
+
+  message += 'Rows 1-3:\n';
+  const metadataRows: Array<
+    [string, number, string | number | undefined, string | number | undefined]
+  > = [
+    ['Date', layout.dateRow, oldMetadata.date, pending.date],
+    ['Cost', layout.costRow, oldMetadata.cost, pending.cost],
+    [
+      'Players',
+      layout.playerCountRow,
+      oldMetadata.playerCount,
+      pending.playerCount,
+    ],
+  ];
+  let cellCount = 0;
+  for (const [label, row, oldValue, newValue] of metadataRows) {
+    if (newValue === undefined) {
+      message += `• ${label} (row ${row}): ${formatValue(oldValue)} (unchanged)\n`;
+    } else {
+      message += `• ${label} (row ${row}): ${formatValue(oldValue)} → ${newValue}\n`;
+      cellCount++;
+    }
+  }
+
+  message += '\nPlayers:\n';
+  const sortedRows = Array.from(nicknameRows.entries()).sort(
+    (a, b) => a[1] - b[1],
+  );
+  for (const [nickname, row] of sortedRows) {
+    const oldValue = formatValue(oldValues.get(nickname));
+    const name = formatVoterToken(nickname, ctx.session.voterNames);
+    if (skipped.has(nickname)) {
+      message += `• ${name} (row ${row}): ${oldValue} (kept)\n`;
+    } else {
+      message += `• ${name} (row ${row}): ${oldValue} → ${charges?.amounts.get(nickname) ?? 0}\n`;
+      cellCount++;
+    }
+  }
+  const newNicknames = ctx.session.newRosterNicknames ?? [];
+  for (const nickname of newNicknames) {
+    message += `• ${nickname} (new roster row): (empty) → ${charges?.amounts.get(nickname) ?? 0}\n`;
+    cellCount += 2;
+  }
+
+  const notFound = ctx.session.usernames.filter(
+    (u) => !nicknameRows.has(u) && !newNicknames.includes(u),
+  );
+  if (notFound.length > 0) {
+    message += `\n❓ Not found in the sheet (will not be written):\n`;
+    notFound.forEach((token) => {
+      message += `• ${formatVoterToken(token, ctx.session.voterNames)}\n`;
+    });
+  }
+  if (charges) {
+    message += `\n${charges.summary}\n`;
+  }
+
+  if (ctx.session.dryRun) {
+    console.log(
+      `[SHEET DRY RUN] Tab: ${tab}, Column: ${column}, Cells: ${cellCount}, Chat ID: ${ctx.chat?.id || 'unknown'}`,
+    );
+    message += `\n🧪 Dry run: nothing was written. ${MSG_USE_UPDATE_AGAIN}`;
+    await ctx.reply(message);
+    resetSession(ctx.session);
+    return;
   }
+
+  ctx.session.column = column;
+  ctx.session.nicknameRowsEntries = Array.from(nicknameRows.entries());
+  ctx.session.overrideExisting = overrideExisting;
+  ctx.session.state = 'awaiting_write_confirmation';
+
+  message += `\nWrite these ${cellCount} cell(s)? (yes/no)`;
+  await ctx.reply(message, {
+    reply_markup: buildYesNoKeyboard(
+      'awaiting_write_confirmation',
+      '✅ Write',
+      '❌ Cancel',
+    ),
+  });
+}
+
+/**
+ * Write the previewed cells after the user confirmed
+ */
+export async function writePreviewedCells(ctx: MyContext): Promise<void> {
+  const column = ctx.session.column;
+  if (!column || !ctx.session.nicknameRowsEntries) {
+    await replyErrorAndReset(ctx, ERR_SESSION_DATA_LOST);
+    return;
+  }
+
+  const overrideExisting = ctx.session.overrideExisting ?? true;
+  await writeZerosAndRespond(
+    ctx,
+    new Map<string, number>(ctx.session.nicknameRowsEntries),
+    column,
+    overrideExisting,
+    getSkippedNicknames(ctx, overrideExisting),
+  );
+}
+
+/**
+ * Re-read the nickname column and check that matched nicknames still map to the same rows
+ * Guards writes that happen after the user answered a delayed prompt
+ */
+async function nicknameRowsStillValid(
+  ctx: MyContext,
+  nicknameRows: Map<string, number>,
+): Promise<boolean> {
+  const sheetsClient = await initChatSheetsClient(ctx);
+  sheetsClient.invalidateCache();
+  const freshRows = await sheetsClient.findNicknameRows(
+    Array.from(nicknameRows.keys()),
+  );
+
+  if (freshRows.size !== nicknameRows.size) {
+    return false;
+  }
+  for (const [nickname, row] of nicknameRows) {
+    if (freshRows.get(nickname) !== row) {
+      return false;
+    }
+  }
+  return true;
 }
 
 /**
@@ -99,25 +332,82 @@ export async function writeZerosAndRespond(
   overrideExisting: boolean,
   skippedNicknames: string[],
 ): Promise<void> {
+  if (!(await nicknameRowsStillValid(ctx, nicknameRows))) {
+    console.log(
+      `[SHEET UPDATE ABORTED] Column: ${column}, roster rows changed since matching, Chat ID: ${ctx.chat?.id || 'unknown'}`,
+    );
+    await replyErrorAndReset(
+      ctx,
+      `❌ Error: the roster in column ${getSheetLayout().nicknameColumn} changed since usernames were matched. Start over with /update`,
+    );
+    return;
+  }
+
+  // Per-player cost share instead of zeros (see CHARGE_MODE)
+  const charges = getSessionCharges(ctx, nicknameRows, skippedNicknames);
+  if (charges === null) {
+    await replyErrorAndReset(ctx, ERR_CHARGES_DATA_MISSING);
+    return;
+  }
+
   await ctx.reply('⏳ Updating sheet...');
 
-  const sheetsClient = await initSheetsClient();
+  const sheetsClient = await initChatSheetsClient(ctx);
 
-  console.log(
-    `[SHEET UPDATE] Column: ${column}, Users: ${Array.from(nicknameRows.keys()).join(', ')}, Override: ${overrideExisting}, Skipped: ${skippedNicknames.join(', ') || 'none'}, Chat ID: ${ctx.chat?.id || 'unknown'}, User: @${ctx.from?.username || 'unknown'}`,
-  );
+  // New game column is inserted at its planned position (columns to the right shift)
+  const insertedColumn = ctx.session.isNewColumn;
+  if (insertedColumn) {
+    await sheetsClient.insertGameColumn(column);
+  }
 
-  const result = await sheetsClient.writeZeros(
-    nicknameRows,
-    column,
-    overrideExisting,
-  );
+  const addedNicknames = ctx.session.newRosterNicknames ?? [];
+  let rowsToWrite: Map<string, number>;
+  let result: { updated: number; notFound: string[] };
+  try {
+    // Unknown players the user chose to add get their roster rows first
+    rowsToWrite = new Map([
+      ...nicknameRows,
+      ...(await sheetsClient.appendRosterRows(addedNicknames)),
+    ]);
+
+    // Rows 1-3 collected during the flow are written together with the players
+    const pending = ctx.session.pendingMetadata;
+    if (pending) {
+      await sheetsClient.writeColumnMetadata(
+        column,
+        pending.date,
+        pending.cost,
+        pending.playerCount,
+      );
+    }
+
+    console.log(
+      `[SHEET UPDATE] Column: ${column}, Users: ${Array.from(rowsToWrite.keys()).join(', ')}, Added: ${addedNicknames.join(', ') || 'none'}, Override: ${overrideExisting}, Skipped: ${skippedNicknames.join(', ') || 'none'}, Share: ${charges?.share ?? 'none'}, Chat ID: ${ctx.chat?.id || 'unknown'}, User: @${ctx.from?.username || 'unknown'}`,
+    );
+
+    result = await sheetsClient.writeZeros(
+      rowsToWrite,
+      column,
+      overrideExisting,
+      charges?.amounts,
+    );
+  } catch (error) {
+    // Don't leave an empty game column behind: the update is retried from scratch
+    if (insertedColumn) {
+      await sheetsClient
+        .deleteGameColumn(column)
+        .catch((deleteError) =>
+          console.error('Error removing inserted column:', deleteError),
+        );
+    }
+    throw error;
+  }
 
   console.log(
     `[SHEET UPDATE COMPLETE] Column: ${column}, Updated: ${result.updated}, Not found: ${result.notFound.length}`,
   );
 
-  const allFoundNicknames = Array.from(nicknameRows.keys());
+  const allFoundNicknames = Array.from(rowsToWrite.keys());
   const updatedNicknames = allFoundNicknames.filter(
     (n) => !skippedNicknames.includes(n),
   );
@@ -125,12 +415,20 @@ export async function writeZerosAndRespond(
     (u) => !allFoundNicknames.includes(u),
   );
 
+  const formatToken = (token: string) =>
+    formatVoterToken(token, ctx.session.voterNames);
+  const formatUpdated = (token: string) =>
+    charges
+      ? `${formatToken(token)}: ${charges.amounts.get(token)}`
+      : formatToken(token);
   const response = buildUpdateResultMessage(
     column,
     result.updated,
-    updatedNicknames,
-    skippedNicknames,
-    notFoundNicknames,
+    updatedNicknames.map(formatUpdated),
+    skippedNicknames.map(formatToken),
+    notFoundNicknames.map(formatToken),
+    charges?.summary,
+    addedNicknames,
   );
 
   await ctx.reply(response);
@@ -158,16 +456,122 @@ export async function proceedWithPlayerCountCheck(
   await ctx.reply('⏳ Checking sheet...');
 
   try {
-    const sheetsClient = await initSheetsClient();
+    const sheetsClient = await initChatSheetsClient(ctx);
     const nicknameRows = await sheetsClient.findNicknameRows(
       ctx.session.usernames,
     );
 
-    if (nicknameRows.size === 0) {
+    await resolveUnknownNicknames(ctx, nicknameRows);
+  } catch (error) {
+    await handleApiError(ctx, error, 'processing usernames');
+  }
+}
+
+/**
+ * Handle usernames missing from the sheet before the write
+ * First offers close sheet nicknames ("did you mean"), then adding the rest
+ * as new roster rows; each question is asked once per flow
+ */
+export async function resolveUnknownNicknames(
+  ctx: MyContext,
+  nicknameRows: Map<string, number>,
+): Promise<void> {
+  // Voters without username can't be suggested or added
+  const unknownNicknames = ctx.session.usernames.filter(
+    (u) => !nicknameRows.has(u) && !u.startsWith(USER_ID_TOKEN_PREFIX),
+  );
+
+  if (
+    unknownNicknames.length > 0 &&
+    ctx.session.nicknameSuggestions === undefined
+  ) {
+    const sheetsClient = await initChatSheetsClient(ctx);
+    const rosterRows = await sheetsClient.findAllNicknameRows();
+    const matchedRows = new Set(nicknameRows.values());
+    const candidates = Array.from(rosterRows.keys()).filter(
+      (nickname) => !matchedRows.has(rosterRows.get(nickname) ?? 0),
+    );
+
+    const suggestions: Array<{
+      username: string;
+      nickname: string;
+      row: number;
+    }> = [];
+    for (const username of unknownNicknames) {
+      const nickname = suggestNickname(username, candidates);
+      if (nickname) {
+        candidates.splice(candidates.indexOf(nickname), 1);
+        suggestions.push({
+          username,
+          nickname,
+          row: rosterRows.get(nickname) ?? 0,
+        });
+      }
+    }
+    ctx.session.nicknameSuggestions = suggestions;
+
+    if (suggestions.length > 0) {
+      ctx.session.nicknameRowsEntries = Array.from(nicknameRows.entries());
+      ctx.session.state = 'awaiting_nickname_suggestions';
+      await ctx.reply(
+        `🤔 Did you mean:\n\n` +
+          suggestions
+            .map((s) => `• ${s.username} → ${s.nickname} (row ${s.row})`)
+            .join('\n') +
+          `\n\nUse these matches? Accepted ones are saved as aliases (yes/no)`,
+        {
+          reply_markup: buildYesNoKeyboard(
+            'awaiting_nickname_suggestions',
+            '✅ Use matches',
+            '❌ No',
+          ),
+        },
+      );
+      return;
+    }
+  }
+
+  // Offer to add the remaining unknown usernames to the roster
+  if (
+    unknownNicknames.length > 0 &&
+    ctx.session.newRosterNicknames === undefined
+  ) {
+    ctx.session.nicknameRowsEntries = Array.from(nicknameRows.entries());
+    ctx.session.state = 'awaiting_roster_addition';
+    await ctx.reply(
+      `❓ Not found in the sheet (column ${getSheetLayout().nicknameColumn}):\n\n` +
+        unknownNicknames.map((u) => `• ${u}`).join('\n') +
+        `\n\nAdd them as new rows at the end of the roster? (yes/no)`,
+      {
+        reply_markup: buildYesNoKeyboard(
+          'awaiting_roster_addition',
+          '➕ Add to roster',
+          '⏭️ Skip them',
+        ),
+      },
+    );
+    return;
+  }
+
+  await proceedWithMatchedRows(ctx, nicknameRows);
+}
+
+/**
+ * Continue after matching: check player count, then existing values
+ * Players picked for roster addition count as recognized
+ */
+export async function proceedWithMatchedRows(
+  ctx: MyContext,
+  nicknameRows: Map<string, number>,
+): Promise<void> {
+  const newNicknames = ctx.session.newRosterNicknames ?? [];
+
+  try {
+    if (nicknameRows.size === 0 && newNicknames.length === 0) {
       await ctx.reply(
         '❌ No matches found in the sheet.\n\n' +
-          `Sent usernames: ${ctx.session.usernames.join(', ')}\n\n` +
-          `Check that usernames in the sheet (column B) match the ones you sent.`,
+          `Sent usernames: ${ctx.session.usernames.map((u) => formatVoterToken(u, ctx.session.voterNames)).join(', ')}\n\n` +
+          `Check that usernames in the sheet (column ${getSheetLayout().nicknameColumn}) match the ones you sent.`,
       );
       resetSession(ctx.session);
       return;
@@ -175,11 +579,18 @@ export async function proceedWithPlayerCountCheck(
 
     // Check if player count needs to be set
     if (ctx.session.playerCount === undefined) {
-      const recognizedCount = nicknameRows.size;
+      const recognizedCount = nicknameRows.size + newNicknames.length;
       ctx.session.state = 'awaiting_player_count_confirmation';
       await ctx.reply(
         `👥 I found ${recognizedCount} recognized username(s).\n\n` +
           `Is ${recognizedCount} the total number of players who attended? (yes/no)`,
+        {
+          reply_markup: buildYesNoKeyboard(
+            'awaiting_player_count_confirmation',
+            `✅ Yes, ${recognizedCount}`,
+            '🔢 No, enter count',
+          ),
+        },
       );
       ctx.session.nicknameRowsEntries = Array.from(nicknameRows.entries());
       return;
@@ -204,10 +615,15 @@ export async function proceedWithMetadataCollection(
   }
 
   try {
-    const sheetsClient = await initSheetsClient();
-    const metadata = await sheetsClient.getColumnMetadata(
-      ctx.session.targetColumn,
-    );
+    const sheetsClient = await initChatSheetsClient(ctx);
+    // Values collected in this flow are written only after the preview;
+    // a new column does not exist in the sheet yet
+    const metadata = {
+      ...(ctx.session.isNewColumn
+        ? {}
+        : await sheetsClient.getColumnMetadata(ctx.session.targetColumn)),
+      ...ctx.session.pendingMetadata,
+    };
 
     // Check date (row 1)
     if (!metadata.date) {